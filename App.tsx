@@ -1,60 +1,198 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { HashRouter as Router } from 'react-router-dom';
-import { Profile, EnrichmentProgress, ColumnMapping, FieldType } from './types';
-import { parseRawCSV, detectMappings, finalizeProfiles, parseEnrichedCSV, exportToCSV, exportToJSON, downloadXLSX, downloadFile } from './services/csv';
-import { enrichWithGemini, inferFromTitle, identifyRole, recommendProfiles, getGlobalInsights, getSuggestedConnections } from './services/gemini';
+import { Profile, EnrichmentProgress, FieldType, Workspace, WorkspaceSummary, ImportSource, MappingTemplate, PlatformId, AgentTurn, AgentMatch, PinnedResultSet, ProfileEmbedding } from './types';
+import { parseRawCSV, readWorkbook, sheetToRows, detectMappings, findTemplate, isCustomField, customFieldLabel, finalizeProfiles, cleaningPreview, parseEnrichedCSV, parseEnrichedWorkbook, exportToCSV, exportToJSON, downloadXLSX, downloadFile } from './services/csv';
+import { enrichWithGemini, inferFromTitle, identifyRole, needsIdentityReview, recommendProfiles, converseWithAgent, getGlobalInsights, getSuggestedConnections } from './services/gemini';
+import { getProvider } from './services/llm';
+import { withCache, identityKey, clearCache } from './services/cache';
+import { runQueue, createQueueController, JobContext, QueueState } from './services/queue';
+import { createWorkspace, listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, renameWorkspace, getActiveWorkspaceId, setActiveWorkspaceId, listTemplates, saveTemplate, deleteTemplate } from './services/storage';
+import { CLEANERS, detectPlatform, getCleaner } from './services/cleaners';
+import { parseLinkedInUrl, linkedinSlug, linkedInWarning, canonicalLinkedInUrl } from './services/linkedin';
+import { profileId, withUniqueIds } from './services/ids';
+import { parseSessionJSON, describeIssue } from './services/session';
+import { inferredProvenance } from './services/provenance';
+import { isLocked, respectLocks } from './services/edits';
+import { buildSearchIndex, fuseRankings, isEmptyQuery } from './services/search';
+import { embedProfiles, applyEmbeddings, nearestProfiles, nearestToQuery } from './services/embeddings';
+import { facetDefinitions, facetCounts, applyFacets, FacetFilters } from './services/facets';
+import { tableColumns, sortProfiles, DEFAULT_TABLE_COLUMNS, SortKey, TableColumnId } from './services/table';
+import { findDuplicateClusters, defaultMergeChoices, applyMerges, DuplicateCluster, MergeChoices, MergeField, MERGE_FIELDS } from './services/dedupe';
 import ProfileCard from './components/ProfileCard';
+import ProfileEditor from './components/ProfileEditor';
+import FacetSidebar from './components/FacetSidebar';
+import ProfileTable from './components/ProfileTable';
+import AgentChat from './components/AgentChat';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
 import Markdown from 'react-markdown';
+import * as XLSX from 'xlsx';
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const readFileText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => resolve(e.target?.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const readFileBuffer = (file: File) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(file);
+});
+
+const isWorkbook = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+type ParsedFile = { fileName: string, headers: string[], rows: string[][] };
+type PendingWorkbook = { fileName: string, workbook: XLSX.WorkBook, sheets: Array<{ name: string, rowCount: number }> };
 
 function UploadPage({ 
+  existingCount,
   onRawLoad, 
   onEnrichedLoad 
 }: { 
-  onRawLoad: (headers: string[], rows: string[][]) => void,
-  onEnrichedLoad: (profiles: Profile[]) => void
+  existingCount: number,
+  onRawLoad: (files: ParsedFile[]) => void,
+  onEnrichedLoad: (profiles: Profile[], fileName: string) => void
 }) {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const restoreInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = (file: File, isRestore: boolean) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (isRestore) {
-        if (file.name.endsWith('.json')) {
-          try {
-            const profiles = JSON.parse(text);
-            onEnrichedLoad(profiles);
-          } catch (err) {
-            alert("Error parsing JSON file. Please ensure it is a valid export from this tool.");
-          }
-        } else if (file.name.endsWith('.csv')) {
-          try {
-            const { headers, rows } = parseRawCSV(text);
-            const profiles = parseEnrichedCSV(headers, rows);
-            if (profiles.length > 0) {
-              onEnrichedLoad(profiles);
-            } else {
-              alert("No valid data found in CSV. Ensure it follows the expected enriched format.");
-            }
-          } catch (err) {
-            alert("Error parsing CSV file.");
+  // Workbooks with several sheets wait here until the user picks which sheets to import.
+  const [sheetPicker, setSheetPicker] = useState<{ parsed: ParsedFile[], workbooks: PendingWorkbook[], chosen: Set<string> } | null>(null);
+
+  const handleRawFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    try {
+      const parsed: ParsedFile[] = [];
+      const workbooks: PendingWorkbook[] = [];
+      for (const file of files) {
+        if (isWorkbook(file.name)) {
+          const { workbook, sheets } = readWorkbook(await readFileBuffer(file));
+          const nonEmpty = sheets.filter(sheet => sheet.rowCount > 0);
+          if (nonEmpty.length === 1) {
+            parsed.push({ fileName: file.name, ...sheetToRows(workbook, nonEmpty[0].name) });
+          } else if (nonEmpty.length > 1) {
+            workbooks.push({ fileName: file.name, workbook, sheets: nonEmpty });
           }
+        } else {
+          parsed.push({ fileName: file.name, ...parseRawCSV(await readFileText(file)) });
         }
+      }
+      if (workbooks.length > 0) {
+        const chosen = new Set(workbooks.map(wb => `${wb.fileName}::${wb.sheets[0].name}`));
+        setSheetPicker({ parsed, workbooks, chosen });
+      } else if (parsed.length > 0) {
+        onRawLoad(parsed);
       } else {
-        const { headers, rows } = parseRawCSV(text);
-        onRawLoad(headers, rows);
+        alert("No data found in the selected files.");
       }
-    };
-    reader.readAsText(file);
+    } catch (err) {
+      alert("Error reading file.");
+    }
+  };
+
+  const toggleSheet = (key: string) => {
+    setSheetPicker(prev => {
+      if (!prev) return prev;
+      const chosen = new Set(prev.chosen);
+      if (chosen.has(key)) chosen.delete(key); else chosen.add(key);
+      return { ...prev, chosen };
+    });
+  };
+
+  const confirmSheets = () => {
+    if (!sheetPicker) return;
+    const fromSheets = sheetPicker.workbooks.flatMap(wb => wb.sheets
+      .filter(sheet => sheetPicker.chosen.has(`${wb.fileName}::${sheet.name}`))
+      .map(sheet => ({ fileName: `${wb.fileName} — ${sheet.name}`, ...sheetToRows(wb.workbook, sheet.name) }))
+    );
+    setSheetPicker(null);
+    const all = [...sheetPicker.parsed, ...fromSheets];
+    if (all.length > 0) onRawLoad(all);
+  };
+
+  const handleFile = async (file: File) => {
+    if (file.name.endsWith('.json')) {
+      try {
+        const { profiles, issues } = parseSessionJSON(await readFileText(file));
+        const skipped = issues.filter(i => i.severity === 'error').length;
+        const details = issues.slice(0, 12).map(describeIssue).join('\n') + (issues.length > 12 ? `\n…and ${issues.length - 12} more` : '');
+        if (profiles.length === 0) {
+          alert(`No valid profiles found in ${file.name}.\n\n${details}`);
+          return;
+        }
+        if (issues.length > 0 && !confirm(`${profiles.length} profiles can be imported (${skipped} skipped, ${issues.length - skipped} fixes applied).\n\n${details}\n\nImport anyway?`)) return;
+        onEnrichedLoad(profiles, file.name);
+      } catch (err) {
+        console.error(err);
+        alert(`Error parsing JSON file. ${(err as Error).message}`);
+      }
+    } else if (file.name.endsWith('.csv') || isWorkbook(file.name)) {
+      try {
+        let profiles: Profile[];
+        if (isWorkbook(file.name)) {
+          profiles = parseEnrichedWorkbook(await readFileBuffer(file));
+        } else {
+          const { headers, rows } = parseRawCSV(await readFileText(file));
+          profiles = parseEnrichedCSV(headers, rows);
+        }
+        if (profiles.length > 0) {
+          onEnrichedLoad(profiles, file.name);
+        } else {
+          alert("No valid data found in file. Ensure it follows the expected enriched format.");
+        }
+      } catch (err) {
+        console.error(err);
+        alert("Error parsing file.");
+      }
+    }
   };
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[70vh] px-4 animate-fadeIn">
+      {sheetPicker && (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[200] flex items-center justify-center px-4">
+          <div className="bg-[#0f172a] border border-slate-800 rounded-[2rem] p-8 w-full max-w-lg shadow-2xl">
+            <h3 className="text-2xl font-black text-slate-50 tracking-tight mb-1">Choose Sheets</h3>
+            <p className="text-slate-400 font-light text-sm mb-6">Each selected sheet is imported as its own attendee list.</p>
+            <div className="space-y-6 max-h-[50vh] overflow-y-auto custom-scrollbar">
+              {sheetPicker.workbooks.map(wb => (
+                <div key={wb.fileName}>
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">{wb.fileName}</p>
+                  <div className="space-y-2">
+                    {wb.sheets.map(sheet => {
+                      const key = `${wb.fileName}::${sheet.name}`;
+                      return (
+                        <label key={key} className="flex items-center gap-3 bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 cursor-pointer hover:border-slate-600 transition-all">
+                          <input 
+                            type="checkbox" 
+                            checked={sheetPicker.chosen.has(key)} 
+                            onChange={() => toggleSheet(key)}
+                            className="w-4 h-4 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                          />
+                          <span className="font-bold text-slate-200 flex-1">{sheet.name}</span>
+                          <span className="text-xs text-slate-500">{sheet.rowCount} rows</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3 mt-8">
+              <button onClick={() => setSheetPicker(null)} className="px-6 py-3 rounded-xl text-sm font-bold text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+              <button 
+                onClick={confirmSheets} 
+                disabled={sheetPicker.chosen.size === 0 && sheetPicker.parsed.length === 0}
+                className="bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white px-6 py-3 rounded-xl font-black hover:bg-blue-500 transition-all"
+              >Import</button>
+            </div>
+          </div>
+        </div>
+      )}
       <div className="text-center mb-12">
         <h1 className="text-5xl md:text-6xl font-black text-slate-50 mb-4 tracking-tighter">
           LinkedIn <span className="text-blue-500 drop-shadow-[0_0_15px_rgba(59,130,246,0.3)]">Recommender</span>
@@ -64,12 +202,18 @@ function UploadPage({
         </p>
       </div>
 
+      {existingCount > 0 && (
+        <div className="mb-8 bg-blue-500/10 border border-blue-500/20 px-6 py-3 rounded-2xl text-sm text-blue-300">
+          This workspace already has <span className="font-black">{existingCount}</span> profiles. New files will be merged in, and people already enriched won't be processed again.
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 w-full max-w-5xl">
         {/* NEW EXTRACTION */}
         <div 
           onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
           onDragLeave={() => setIsDragging(false)}
-          onDrop={(e) => { e.preventDefault(); setIsDragging(false); if (e.dataTransfer.files?.[0]) handleFile(e.dataTransfer.files[0], false); }}
+          onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleRawFiles(Array.from(e.dataTransfer.files || [])); }}
           onClick={() => fileInputRef.current?.click()}
           className={`p-12 border-2 border-dashed rounded-[2.5rem] cursor-pointer transition-all duration-500 flex flex-col items-center gap-6 group ${
             isDragging ? 'border-blue-500 bg-blue-500/5 scale-[1.02]' : 'border-slate-800 bg-slate-900/30 hover:border-slate-600 hover:bg-slate-900/50'
@@ -78,9 +222,9 @@ function UploadPage({
           <div className="w-20 h-20 bg-blue-600 rounded-3xl flex items-center justify-center text-white text-4xl shadow-[0_0_30px_rgba(37,99,235,0.4)] group-hover:scale-110 transition-transform">➕</div>
           <div className="text-center">
             <p className="text-xl font-bold text-slate-100">New Extraction</p>
-            <p className="text-slate-500 mt-2 text-sm font-light">Upload raw attendee list (CSV)</p>
+            <p className="text-slate-500 mt-2 text-sm font-light">Upload one or more raw attendee lists (CSV, TSV, Excel)</p>
           </div>
-          <input type="file" ref={fileInputRef} className="hidden" accept=".csv" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0], false)} />
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.tsv,.txt,.xlsx,.xls" multiple onChange={(e) => handleRawFiles(Array.from(e.target.files || []))} />
         </div>
 
         {/* RESTORE SESSION */}
@@ -91,9 +235,9 @@ function UploadPage({
           <div className="w-20 h-20 bg-slate-800 rounded-3xl flex items-center justify-center text-slate-400 text-4xl group-hover:scale-110 transition-transform">📂</div>
           <div className="text-center">
             <p className="text-xl font-bold text-slate-100">Import Enriched Data</p>
-            <p className="text-slate-500 mt-2 text-sm font-light">Load previously processed .json or .csv</p>
+            <p className="text-slate-500 mt-2 text-sm font-light">Load previously processed .json, .csv or .xlsx</p>
           </div>
-          <input type="file" ref={restoreInputRef} className="hidden" accept=".json,.csv" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0], true)} />
+          <input type="file" ref={restoreInputRef} className="hidden" accept=".json,.csv,.xlsx" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
         </div>
       </div>
 
@@ -106,7 +250,7 @@ function UploadPage({
         
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           {[
-            { step: '01', title: 'Upload', desc: 'Drop your raw CSV attendee list (including LinkedIn URLs).', icon: '📄' },
+            { step: '01', title: 'Upload', desc: 'Drop your raw CSV, TSV or Excel attendee lists (including LinkedIn URLs).', icon: '📄' },
             { step: '02', title: 'Map', desc: 'Match columns to data fields like Name and LinkedIn URL.', icon: '🗺️' },
             { step: '03', title: 'Enrich', desc: 'AI discovers roles & backgrounds from profiles.', icon: '🧠' },
             { step: '04', title: 'Analyze', desc: 'Get insights & personalized connections.', icon: '📈' },
@@ -124,46 +268,139 @@ function UploadPage({
   );
 }
 
-function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: string[][], onComplete: (profiles: Profile[]) => void }) {
-  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+const NEW_CUSTOM_FIELD = '__new_custom__';
+
+function MappingPage({ imports, onImportsChange, onComplete }: { 
+  imports: ImportSource[],
+  onImportsChange: (imports: ImportSource[]) => void,
+  onComplete: (profiles: Profile[]) => void 
+}) {
+  // Each file keeps its own mappings; files restored from a saved workspace keep their edits.
+  const [sources, setSources] = useState<ImportSource[]>(() => imports.map(src => ({
+    ...src,
+    mappings: src.mappings.length === src.headers.length ? src.mappings : detectMappings(src.headers, src.rows),
+    platform: src.platform || detectPlatform(src.headers).id
+  })));
+  const [activeIdx, setActiveIdx] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processStatus, setProcessStatus] = useState('');
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  // Sources still on auto-detected mappings; a matching saved template may replace them.
+  const untouched = useRef(new Set(imports.filter(src => src.mappings.length !== src.headers.length).map(src => src.id)));
+
+  const active = sources[activeIdx];
+  const mappings = active?.mappings || [];
+  const cleaner = getCleaner(active?.platform);
+  const cleaningChanges = active ? cleaningPreview(mappings, active.rows, cleaner) : [];
+  const customLabels = Array.from(new Set(sources.flatMap(src => src.mappings.map(m => m.mappedTo).filter(isCustomField).map(customFieldLabel))));
+
+  useEffect(() => {
+    onImportsChange(sources);
+  }, [sources]);
 
   useEffect(() => {
-    setMappings(detectMappings(headers, rows));
-  }, [headers, rows]);
+    listTemplates().then(saved => {
+      setTemplates(saved);
+      setSources(prev => prev.map(src => {
+        if (!untouched.current.has(src.id)) return src;
+        const template = findTemplate(src.headers, saved);
+        return template ? { ...src, mappings: detectMappings(src.headers, src.rows, template), appliedTemplate: template.name } : src;
+      }));
+    }).catch(console.error);
+  }, []);
+
+  const updateActive = (patch: (src: ImportSource) => ImportSource) => {
+    if (active) untouched.current.delete(active.id);
+    setSources(prev => prev.map((src, s) => s === activeIdx ? patch(src) : src));
+  };
 
-  const updateMapping = (idx: number, field: FieldType) => {
-    setMappings(prev => prev.map((m, i) => i === idx ? { ...m, mappedTo: field } : m));
+  const updateMapping = (idx: number, value: string) => {
+    let field = value as FieldType;
+    if (value === NEW_CUSTOM_FIELD) {
+      const label = prompt("Name this custom field", mappings[idx].header)?.trim();
+      if (!label) return;
+      field = `custom:${label}`;
+    }
+    updateActive(src => ({ ...src, mappings: src.mappings.map((m, i) => i === idx ? { ...m, mappedTo: field, autoDetected: false, confidence: undefined } : m) }));
+  };
+
+  const setPlatform = (platform: PlatformId) => {
+    setSources(prev => prev.map((src, s) => s === activeIdx ? { ...src, platform } : src));
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    updateActive(src => ({ ...src, mappings: detectMappings(src.headers, src.rows, template), appliedTemplate: template.name }));
+  };
+
+  const saveAsTemplate = async () => {
+    if (!active) return;
+    const name = prompt("Save mapping as template", active.appliedTemplate || active.fileName.replace(/\.[^.]+$/, ''))?.trim();
+    if (!name) return;
+    const existing = templates.find(t => t.name === name);
+    const template: MappingTemplate = {
+      id: existing?.id || `tpl-${Date.now()}`,
+      name,
+      headers: active.headers,
+      mappings: active.mappings.map(({ header, mappedTo }) => ({ header, mappedTo }))
+    };
+    try {
+      await saveTemplate(template);
+      setTemplates(prev => [...prev.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+      updateActive(src => ({ ...src, appliedTemplate: name }));
+    } catch (e) {
+      console.error(e);
+      alert("Could not save template.");
+    }
+  };
+
+  const removeTemplate = async (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template || !confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(id);
+      setTemplates(prev => prev.filter(t => t.id !== id));
+    } catch (e) {
+      console.error(e);
+      alert("Could not delete template.");
+    }
+  };
+
+  const removeSource = (idx: number) => {
+    setSources(prev => prev.filter((_, s) => s !== idx));
+    setActiveIdx(0);
   };
 
   const handleFinalize = async () => {
     setIsProcessing(true);
-    const initialProfiles = finalizeProfiles(mappings, rows);
+    const initialProfiles = withUniqueIds(sources.flatMap(src => finalizeProfiles(src.mappings, src.rows, src)));
     const missingRoles = initialProfiles.filter(p => !p.title || !p.company);
 
     if (missingRoles.length > 0) {
       setProcessStatus(`Identifying ${missingRoles.length} missing roles...`);
-      const updatedProfiles = [...initialProfiles];
-      for (let i = 0; i < updatedProfiles.length; i++) {
-        const p = updatedProfiles[i];
-        if (!p.title || !p.company) {
-          setProcessStatus(`Discovering ${p.name}...`);
-          try {
-            const roleInfo = await identifyRole(p.name, p.linkedin_url);
-            p.title = roleInfo.title || p.title;
-            p.company = roleInfo.company || p.company;
-            p.region = roleInfo.region || p.region;
-          } catch (e) {
-            console.error(e);
-          }
-          await sleep(500); // Slight delay for rate limits
+      let done = 0;
+      await runQueue(missingRoles, async (p, { throttle }) => {
+        const { value: roleInfo } = await withCache('identify_role', identityKey(p), async () => {
+          await throttle();
+          return identifyRole(p.name, p.linkedin_url, { title: p.title, company: p.company, email: p.email });
+        }, { shouldCache: r => Boolean(r.title || r.company || r.candidates.length) });
+        if (needsIdentityReview(roleInfo)) {
+          // Leave the role blank rather than guess; someone picks the right person before enrichment.
+          p.identity_status = 'needs_review';
+          p.identity_candidates = roleInfo.candidates;
+          return;
         }
-      }
-      onComplete(updatedProfiles);
-    } else {
-      onComplete(initialProfiles);
+        p.title = roleInfo.title || p.title;
+        p.company = roleInfo.company || p.company;
+        p.region = roleInfo.region || p.region;
+      }, {}, {
+        onStart: (p) => setProcessStatus(`Discovering ${p.name}... (${done}/${missingRoles.length})`),
+        onSuccess: () => { done++; },
+        onFailure: (_p, _i, error) => { done++; console.error(error); }
+      });
     }
+    onComplete(initialProfiles);
     setIsProcessing(false);
   };
 
@@ -189,6 +426,89 @@ function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: s
         </div>
       </div>
 
+      {sources.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {sources.map((src, i) => (
+            <div 
+              key={src.id} 
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold border transition-all ${i === activeIdx ? 'bg-blue-600 text-white border-blue-500' : 'bg-slate-900/50 text-slate-400 border-slate-800 hover:text-slate-200'}`}
+            >
+              <button onClick={() => setActiveIdx(i)}>
+                {src.fileName} <span className="opacity-60 font-normal">({src.rows.length})</span>
+              </button>
+              <button onClick={() => removeSource(i)} className="opacity-50 hover:opacity-100" title="Remove file">×</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6 bg-slate-900/40 border border-slate-800 rounded-2xl px-6 py-4">
+        <div className="text-sm text-slate-400">
+          {active?.appliedTemplate ? (
+            <>Template: <span className="font-bold text-blue-400">{active.appliedTemplate}</span></>
+          ) : (
+            <span className="italic">No template applied</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {templates.length > 0 && (
+            <select 
+              value=""
+              onChange={(e) => applyTemplate(e.target.value)}
+              className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-[10px] font-bold text-slate-300 outline-none cursor-pointer"
+            >
+              <option value="" disabled>Apply template…</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          )}
+          {templates.length > 0 && (
+            <select 
+              value=""
+              onChange={(e) => removeTemplate(e.target.value)}
+              className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-[10px] font-bold text-slate-500 outline-none cursor-pointer"
+            >
+              <option value="" disabled>Delete template…</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          )}
+          <button onClick={saveAsTemplate} disabled={!active} className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-50">Save as Template</button>
+        </div>
+      </div>
+
+      {active && (
+        <div className="mb-6 bg-slate-900/40 border border-slate-800 rounded-2xl px-6 py-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="text-sm text-slate-400">
+              Cleaning rules: <span className="font-bold text-blue-400">{cleaner.label}</span>
+              {detectPlatform(active.headers).id === cleaner.id && cleaner.id !== 'generic' && (
+                <span className="ml-2 text-[10px] text-emerald-400 font-bold">detected from headers</span>
+              )}
+            </div>
+            <select 
+              value={cleaner.id}
+              onChange={(e) => setPlatform(e.target.value as PlatformId)}
+              className="bg-[#020617] border border-slate-800 rounded-lg px-3 py-1.5 text-[10px] font-bold text-slate-300 outline-none cursor-pointer"
+            >
+              {CLEANERS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+          </div>
+          {cleaningChanges.length > 0 ? (
+            <div className="mt-3 space-y-1">
+              {cleaningChanges.map((change, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-500 font-bold shrink-0">{change.header}:</span>
+                  <span className="text-rose-400/80 line-through truncate max-w-[280px]">{change.before}</span>
+                  <span className="text-slate-700">›</span>
+                  <span className="text-emerald-400 truncate max-w-[280px]">{change.after || <em className="opacity-60">(empty)</em>}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-3 text-xs text-slate-600 italic">No changes needed for the sampled rows.</p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-4 mb-10">
         {mappings.map((m, i) => (
           <div key={i} className="bg-[#0f172a]/80 border border-slate-800 rounded-2xl p-6 flex items-center justify-between shadow-xl">
@@ -198,6 +518,15 @@ function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: s
                 {m.autoDetected && (
                   <span className="bg-emerald-500/10 text-emerald-400 text-[10px] px-2 py-0.5 rounded-full font-black border border-emerald-500/20">Auto-detected</span>
                 )}
+                {m.autoDetected && m.confidence !== undefined && (
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full font-black border ${
+                    m.confidence >= 0.75 ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' :
+                    m.confidence >= 0.5 ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' :
+                    'bg-rose-500/10 text-rose-400 border-rose-500/20'
+                  }`} title="How confident the detection is, from the header and sample values">
+                    {Math.round(m.confidence * 100)}% confident
+                  </span>
+                )}
               </div>
               <div className="flex gap-2 items-center">
                 <span className="text-slate-600 text-xs truncate max-w-[400px]">
@@ -208,7 +537,7 @@ function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: s
             </div>
             <select 
               value={m.mappedTo}
-              onChange={(e) => updateMapping(i, e.target.value as FieldType)}
+              onChange={(e) => updateMapping(i, e.target.value)}
               className="bg-[#020617] border border-slate-800 rounded-xl px-4 py-2 text-sm text-slate-300 focus:border-blue-500 outline-none w-48 cursor-pointer appearance-none"
               style={{ backgroundImage: 'url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns=\'http://www.w3.org/2000/svg\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'currentColor\' stroke-width=\'2\' stroke-linecap=\'round\' stroke-linejoin=\'round\'%3e%3cpolyline points=\'6 9 12 15 18 9\'%3e%3c/polyline%3e%3c/svg%3e")', backgroundRepeat: 'no-repeat', backgroundPosition: 'right 1rem center', backgroundSize: '1em' }}
             >
@@ -218,13 +547,15 @@ function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: s
               <option value="company">Company</option>
               <option value="linkedin_url">LinkedIn URL</option>
               <option value="email">Email</option>
+              {customLabels.map(label => <option key={label} value={`custom:${label}`}>{label} (custom)</option>)}
+              <option value={NEW_CUSTOM_FIELD}>＋ New custom field…</option>
             </select>
           </div>
         ))}
       </div>
 
       <div className="flex justify-center">
-        <button onClick={handleFinalize} className="bg-blue-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-500/20 hover:bg-blue-500 transition-all active:scale-95">
+        <button onClick={handleFinalize} disabled={sources.length === 0} className="bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-500/20 hover:bg-blue-500 transition-all active:scale-95">
           Proceed & Auto-Fill Roles
         </button>
       </div>
@@ -232,16 +563,230 @@ function MappingPage({ headers, rows, onComplete }: { headers: string[], rows: s
   );
 }
 
+function DedupePage({ profiles, onComplete }: { profiles: Profile[], onComplete: (profiles: Profile[]) => void }) {
+  const [clusters] = useState<DuplicateCluster[]>(() => findDuplicateClusters(profiles));
+  const [accepted, setAccepted] = useState<Record<string, boolean>>(() => 
+    Object.fromEntries(clusters.map(c => [c.id, c.confidence === 'high']))
+  );
+  const [choices, setChoices] = useState<Record<string, MergeChoices>>(() =>
+    Object.fromEntries(clusters.map(c => [c.id, defaultMergeChoices(c.profileIds.map(id => profiles.find(p => p.id === id)!))]))
+  );
+
+  const byId = new Map(profiles.map(p => [p.id, p]));
+  const acceptedCount = clusters.filter(c => accepted[c.id]).length;
+
+  const choose = (clusterId: string, field: MergeField, profileId: string) => {
+    setChoices(prev => ({ ...prev, [clusterId]: { ...prev[clusterId], [field]: profileId } }));
+  };
+
+  const handleContinue = () => {
+    const merges = clusters.filter(c => accepted[c.id]).map(c => ({ cluster: c, choices: choices[c.id] }));
+    onComplete(applyMerges(profiles, merges));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-4 animate-fadeIn">
+      <div className="flex flex-col md:flex-row justify-between items-end gap-6 mb-8">
+        <div>
+          <h2 className="text-3xl font-black text-slate-50 tracking-tight">Review Duplicates</h2>
+          <p className="text-slate-400 font-light">We found {clusters.length} groups of attendees who look like the same person. Pick the values to keep and merge them before enrichment.</p>
+        </div>
+        <div className="flex gap-2">
+           <button onClick={() => setAccepted(Object.fromEntries(clusters.map(c => [c.id, true])))} className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Merge All</button>
+           <button onClick={() => setAccepted({})} className="bg-slate-800 hover:bg-slate-700 text-slate-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Keep All Separate</button>
+        </div>
+      </div>
+
+      <div className="space-y-6 mb-10">
+        {clusters.map(cluster => {
+          const members = cluster.profileIds.map(id => byId.get(id)).filter((p): p is Profile => Boolean(p));
+          const fields = MERGE_FIELDS.filter(f => members.some(m => m[f]));
+          const isAccepted = Boolean(accepted[cluster.id]);
+          return (
+            <div key={cluster.id} className={`bg-[#0f172a]/80 border rounded-2xl p-6 shadow-xl transition-all ${isAccepted ? 'border-blue-500/40' : 'border-slate-800 opacity-60'}`}>
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full font-black border ${cluster.confidence === 'high' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}`}>
+                    {cluster.confidence === 'high' ? 'Likely duplicate' : 'Possible duplicate'}
+                  </span>
+                  {cluster.reasons.map(r => <span key={r} className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">{r}</span>)}
+                </div>
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={isAccepted} 
+                    onChange={() => setAccepted(prev => ({ ...prev, [cluster.id]: !isAccepted }))}
+                    className="w-4 h-4 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                  />
+                  Merge
+                </label>
+              </div>
+              <table className="w-full text-left text-sm">
+                <thead className="text-[#475569] text-[10px] uppercase tracking-widest font-black">
+                  <tr>
+                    <th className="py-2 pr-4 w-32">Field</th>
+                    {members.map((m, i) => <th key={m.id} className="py-2 pr-4">Record {i + 1}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50">
+                  {fields.map(field => (
+                    <tr key={field}>
+                      <td className="py-2 pr-4 text-[10px] font-black text-slate-500 uppercase tracking-wider">{field.replace('_', ' ')}</td>
+                      {members.map(m => (
+                        <td key={m.id} className="py-2 pr-4">
+                          {m[field] ? (
+                            <label className="flex items-center gap-2 cursor-pointer">
+                              <input 
+                                type="radio" 
+                                name={`${cluster.id}-${field}`}
+                                checked={choices[cluster.id]?.[field] === m.id}
+                                onChange={() => choose(cluster.id, field, m.id)}
+                                disabled={!isAccepted}
+                                className="text-blue-500 bg-slate-800 border-slate-700"
+                              />
+                              <span className="text-slate-300 truncate max-w-[220px]">{m[field]}</span>
+                            </label>
+                          ) : <span className="text-slate-700">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center">
+        <button onClick={handleContinue} className="bg-blue-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-500/20 hover:bg-blue-500 transition-all active:scale-95">
+          {acceptedCount > 0 ? `Merge ${acceptedCount} Groups & Continue` : 'Continue Without Merging'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Choice per profile in identity review: a candidate index, or NONE_OF_THESE.
+const NONE_OF_THESE = -1;
+
+function IdentityReviewPage({ profiles, onComplete }: { profiles: Profile[], onComplete: (profiles: Profile[]) => void }) {
+  const [reviewIds] = useState(() => profiles.filter(p => p.identity_status === 'needs_review').map(p => p.id));
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const byId = new Map(profiles.map(p => [p.id, p]));
+  const decided = reviewIds.filter(id => choices[id] !== undefined).length;
+
+  const handleContinue = () => {
+    onComplete(profiles.map(p => {
+      const choice = choices[p.id];
+      if (!reviewIds.includes(p.id) || choice === undefined) return p;
+      const { identity_candidates, ...rest } = p;
+      if (choice === NONE_OF_THESE) return { ...rest, identity_status: 'rejected' as const };
+      const c = identity_candidates![choice];
+      return respectLocks(p, {
+        ...rest,
+        title: c.title,
+        company: c.company,
+        region: c.region || p.region,
+        linkedin_url: p.linkedin_url || canonicalLinkedInUrl(c.linkedin_url),
+        identity_status: 'confirmed' as const
+      });
+    }));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-4 animate-fadeIn">
+      <div className="flex flex-col md:flex-row justify-between items-end gap-6 mb-8">
+        <div>
+          <h2 className="text-3xl font-black text-slate-50 tracking-tight">Which One Is It?</h2>
+          <p className="text-slate-400 font-light">{reviewIds.length} attendees share their name with several professionals. Pick the right person so we research them and not a stranger.</p>
+        </div>
+        <button onClick={() => setChoices(Object.fromEntries(reviewIds.map(id => [id, 0])))} className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Accept Top Matches</button>
+      </div>
+
+      <div className="space-y-6 mb-10">
+        {reviewIds.map(id => {
+          const p = byId.get(id);
+          if (!p) return null;
+          const candidates = p.identity_candidates || [];
+          return (
+            <div key={id} className={`bg-[#0f172a]/80 border rounded-2xl p-6 shadow-xl transition-all ${choices[id] !== undefined ? 'border-blue-500/40' : 'border-slate-800'}`}>
+              <div className="flex items-center gap-3 flex-wrap mb-4">
+                <span className="text-lg font-bold text-slate-50">{p.name}</span>
+                {p.email && <span className="text-xs text-slate-500">{p.email}</span>}
+                {(p.sources || []).map(src => (
+                  <span key={src} className="bg-slate-800 text-slate-500 text-[9px] px-1.5 py-0.5 rounded font-bold truncate max-w-[160px]">{src}</span>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {candidates.map((c, i) => (
+                  <label key={i} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all ${choices[id] === i ? 'bg-blue-500/10 border-blue-500/40' : 'bg-slate-950/40 border-slate-800 hover:border-slate-700'}`}>
+                    <input type="radio" name={`identity-${id}`} checked={choices[id] === i} onChange={() => setChoices(prev => ({ ...prev, [id]: i }))} className="mt-1 text-blue-500 bg-slate-800 border-slate-700" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-slate-200 font-medium">{c.title}</span>
+                        {c.title && c.company && <span className="text-slate-600">@</span>}
+                        <span className="text-slate-400">{c.company}</span>
+                        {c.region && <span className="text-[10px] text-slate-500">📍 {c.region}</span>}
+                        <span className="text-[10px] text-slate-500 font-black ml-auto">{Math.round(c.confidence * 100)}%</span>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">{c.evidence}</p>
+                      {canonicalLinkedInUrl(c.linkedin_url) && (
+                        <a href={canonicalLinkedInUrl(c.linkedin_url)} target="_blank" rel="noopener noreferrer" className="text-[10px] text-blue-500 hover:text-blue-400 font-bold">View LinkedIn</a>
+                      )}
+                    </div>
+                  </label>
+                ))}
+                <label className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-all ${choices[id] === NONE_OF_THESE ? 'bg-amber-500/10 border-amber-500/40' : 'bg-slate-950/40 border-slate-800 hover:border-slate-700'}`}>
+                  <input type="radio" name={`identity-${id}`} checked={choices[id] === NONE_OF_THESE} onChange={() => setChoices(prev => ({ ...prev, [id]: NONE_OF_THESE }))} className="text-amber-500 bg-slate-800 border-slate-700" />
+                  <span className="text-sm text-slate-300">None of these</span>
+                  <span className="text-[10px] text-slate-500">Skip web research and infer from their title instead</span>
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center">
+        <button onClick={handleContinue} disabled={decided === 0} className="bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-500/20 hover:bg-blue-500 transition-all active:scale-95">
+          {decided < reviewIds.length ? `Continue with ${decided} of ${reviewIds.length} (rest later)` : 'Continue Enrichment'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (selected: Profile[]) => void }) {
   const [list, setList] = useState(profiles);
+  // Profiles joined from earlier runs or enriched imports are kept but never re-processed here.
+  const isEnriched = (p: Profile) => p.enrichment_status !== 'pending';
   const [roleSearch, setRoleSearch] = useState('');
+  const [editing, setEditing] = useState<Profile | null>(null);
 
   const toggle = (id: string) => {
     setList(prev => prev.map(p => p.id === id ? { ...p, selected: !p.selected } : p));
   };
 
+  const toggleRefresh = (id: string) => {
+    setList(prev => prev.map(p => p.id === id ? { ...p, force_refresh: !p.force_refresh } : p));
+  };
+
+  const saveEdit = (edited: Profile) => {
+    setList(prev => prev.map(p => p.id === edited.id ? edited : p));
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm("Clear all cached research? Every profile will be looked up again.")) return;
+    try {
+      await clearCache();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
   const selectFiltered = (selected: boolean) => {
-    const filteredIds = new Set(filteredList.map(p => p.id));
+    const filteredIds = new Set(filteredList.filter(p => !isEnriched(p)).map(p => p.id));
     setList(prev => prev.map(p => filteredIds.has(p.id) ? { ...p, selected } : p));
   };
 
@@ -252,10 +797,11 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
            (p.name || '').toLowerCase().includes(search);
   });
 
-  const selectedCount = list.filter(p => p.selected).length;
+  const selectedCount = list.filter(p => p.selected && !isEnriched(p)).length;
 
   return (
     <div className="max-w-5xl mx-auto py-12 px-4 animate-fadeIn">
+      {editing && <ProfileEditor profile={editing} onSave={saveEdit} onClose={() => setEditing(null)} />}
       <div className="flex flex-col md:flex-row justify-between items-end gap-6 mb-8">
         <div>
           <h2 className="text-3xl font-black text-slate-50 tracking-tight">Limit Enrichment Scope</h2>
@@ -264,6 +810,7 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
         <div className="flex gap-2">
            <button onClick={() => selectFiltered(true)} className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Select Visible</button>
            <button onClick={() => selectFiltered(false)} className="bg-slate-800 hover:bg-slate-700 text-slate-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Deselect Visible</button>
+           <button onClick={handleClearCache} className="bg-slate-800 hover:bg-slate-700 text-violet-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Clear Cache</button>
         </div>
       </div>
 
@@ -289,20 +836,40 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
                 <th className="p-4">Attendee</th>
                 <th className="p-4">Identified Role</th>
                 <th className="p-4">LinkedIn</th>
+                <th className="p-4 text-center" title="Ignore cached research for this profile">Force Refresh</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-800/50">
               {filteredList.map(p => (
-                <tr key={p.id} className={`hover:bg-slate-800/30 transition-colors ${!p.selected ? 'opacity-40 grayscale' : ''}`}>
+                <tr key={p.id} className={`hover:bg-slate-800/30 transition-colors ${!p.selected && !isEnriched(p) ? 'opacity-40 grayscale' : ''}`}>
                   <td className="p-4 text-center">
-                    <input 
-                      type="checkbox" 
-                      checked={p.selected} 
-                      onChange={() => toggle(p.id)} 
-                      className="w-5 h-5 rounded-md bg-slate-800 border-slate-700 text-blue-500 focus:ring-blue-500/20 cursor-pointer" 
-                    />
+                    {isEnriched(p) ? (
+                      <span className="text-emerald-400 text-[10px] font-black uppercase tracking-widest" title="Already enriched">✓</span>
+                    ) : (
+                      <input 
+                        type="checkbox" 
+                        checked={p.selected} 
+                        onChange={() => toggle(p.id)} 
+                        className="w-5 h-5 rounded-md bg-slate-800 border-slate-700 text-blue-500 focus:ring-blue-500/20 cursor-pointer" 
+                      />
+                    )}
+                  </td>
+                  <td className="p-4 max-w-[200px]">
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold text-slate-200 truncate">{p.name}</span>
+                      <button onClick={() => setEditing(p)} className="text-[10px] text-slate-500 hover:text-blue-400 font-bold shrink-0" title="Edit fields">✏️</button>
+                      {p.locked_fields && p.locked_fields.length > 0 && (
+                        <span className="text-[10px] text-slate-500 shrink-0" title={`${p.locked_fields.length} field(s) locked against enrichment`}>🔒</span>
+                      )}
+                    </div>
+                    {p.sources && p.sources.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {p.sources.map(src => (
+                          <span key={src} className="bg-slate-800 text-slate-500 text-[9px] px-1.5 py-0.5 rounded font-bold truncate max-w-[120px]">{src}</span>
+                        ))}
+                      </div>
+                    )}
                   </td>
-                  <td className="p-4 font-bold text-slate-200 truncate max-w-[200px]">{p.name}</td>
                   <td className="p-4">
                     {p.title || p.company ? (
                       <div className="flex flex-col gap-0.5">
@@ -319,11 +886,22 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
                   </td>
                   <td className="p-4 text-xs text-blue-500/70">
                     {p.linkedin_url ? (
-                      <span className="opacity-60 truncate block max-w-[150px]">
-                        {p.linkedin_url.replace(/https?:\/\/(www\.)?linkedin\.com\/in\//, '')}
-                      </span>
+                      linkedInWarning(p.linkedin_url) ? (
+                        <span className="text-amber-500/80 truncate block max-w-[150px]" title={`${linkedInWarning(p.linkedin_url)}: ${p.linkedin_url}`}>
+                          ⚠ {parseLinkedInUrl(p.linkedin_url)?.url.replace(/^https?:\/\/(www\.)?/, '') || p.linkedin_url}
+                        </span>
+                      ) : (
+                        <span className="opacity-60 truncate block max-w-[150px]">{linkedinSlug(p.linkedin_url)}</span>
+                      )
                     ) : '—'}
                   </td>
+                  <td className="p-4 text-center">
+                    <button 
+                      onClick={() => toggleRefresh(p.id)} 
+                      className={`text-sm transition-all ${p.force_refresh ? 'opacity-100' : 'opacity-30 hover:opacity-60'}`}
+                      title={p.force_refresh ? 'Will re-research, ignoring cache' : 'Use cached research when available'}
+                    >🔄</button>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -333,7 +911,7 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
 
       <div className="flex justify-center flex-col items-center gap-4">
         <button 
-          onClick={() => onStart(list.filter(p => p.selected))}
+          onClick={() => onStart(list.filter(p => p.selected || isEnriched(p)))}
           disabled={selectedCount === 0}
           className="bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white px-12 py-5 rounded-2xl font-black text-lg shadow-[0_0_30px_rgba(37,99,235,0.4)] hover:bg-blue-500 transition-all active:scale-95 flex items-center gap-4 group disabled:shadow-none"
         >
@@ -345,69 +923,182 @@ function SelectionPage({ profiles, onStart }: { profiles: Profile[], onStart: (s
   );
 }
 
-function ProgressPage({ profiles, onComplete }: { profiles: Profile[], onComplete: (enriched: Profile[]) => void }) {
+function ProgressPage({ profiles, onProgress, onComplete }: { 
+  profiles: Profile[], 
+  onProgress: (snapshot: Profile[]) => void,
+  onComplete: (enriched: Profile[]) => void 
+}) {
+  // Only pending profiles are queued, so a run restored after a reload picks up where it stopped.
+  // Profiles waiting for identity review are held back until someone picks the right person.
+  const pendingIndices = useRef(profiles.map((p, i) => p.enrichment_status === 'pending' && p.identity_status !== 'needs_review' ? i : -1).filter(i => i !== -1));
   const [progress, setProgress] = useState<EnrichmentProgress>({
-    current: 0, total: profiles.length, percentage: '0', currentName: '', phase: 'identifying', logs: []
+    current: 0, total: pendingIndices.current.length, percentage: '0', currentName: '', phase: 'identifying', active: 0, retries: 0, cacheHits: 0, logs: []
   });
-  const isEnriching = useRef(false);
+  const controller = useRef(createQueueController());
+  const [runState, setRunState] = useState<QueueState>('running');
 
+  // Runs once per mount on the profiles it was opened with. Leaving the page (switching workspace,
+  // "New Session") cancels the run and drops its late callbacks, which would otherwise patch
+  // whichever workspace is open by then.
   useEffect(() => {
-    if (isEnriching.current) return;
-    isEnriching.current = true;
+    let unmounted = false;
+    const run = createQueueController();
+    controller.current = run;
+    const unsubscribe = run.subscribe(setRunState);
+    setRunState(run.state);
+
+    const queued = pendingIndices.current.map(i => profiles[i]);
+    const working = [...profiles];
+
+    const addLog = (log: EnrichmentProgress['logs'][number]) => {
+      setProgress(prev => ({ ...prev, logs: [log, ...prev.logs].slice(0, 50) }));
+    };
+
+    const markDone = (i: number, profile: Profile) => {
+      working[pendingIndices.current[i]] = profile;
+      onProgress([...working]);
+      setProgress(prev => {
+        const current = prev.current + 1;
+        return { ...prev, current, active: prev.active - 1, percentage: ((current / queued.length) * 100).toFixed(1) };
+      });
+    };
+
+    const research = async (p: Profile, { throttle }: JobContext): Promise<Profile & { cached: boolean }> => {
+      let currentTitle = p.title;
+      let currentCompany = p.company;
+      const identity = identityKey(p);
+      const forceRefresh = p.force_refresh;
+      // "None of these" in identity review: researching the name would find a stranger.
+      const skipResearch = p.identity_status === 'rejected';
+      // A hand-locked role is taken as who they are, even if one half is blank.
+      const roleLocked = isLocked(p, 'title') && isLocked(p, 'company');
+
+      // Role discovery if still missing (last resort)
+      if (!skipResearch && !roleLocked && p.identity_status !== 'confirmed' && (!currentTitle || !currentCompany)) {
+        setProgress(prev => ({ ...prev, phase: 'identifying' }));
+        const { value: discovered, hit } = await withCache('identify_role', identity, async () => {
+          await throttle();
+          return identifyRole(p.name, p.linkedin_url, { title: p.title, company: p.company, email: p.email });
+        }, { forceRefresh, shouldCache: r => Boolean(r.title || r.company || r.candidates.length) });
+        if (needsIdentityReview(discovered)) {
+          return { ...p, identity_status: 'needs_review', identity_candidates: discovered.candidates, cached: hit };
+        }
+        if (!isLocked(p, 'title')) currentTitle = discovered.title || currentTitle;
+        if (!isLocked(p, 'company')) currentCompany = discovered.company || currentCompany;
+      }
+
+      setProgress(prev => ({ ...prev, phase: 'extracting' }));
+      const { value: result, hit, createdAt } = skipResearch
+        ? { value: null, hit: false, createdAt: Date.now() }
+        : await withCache('enrich', identity, async () => {
+            await throttle();
+            return enrichWithGemini(p.name, currentTitle, currentCompany, p.linkedin_url);
+          }, { forceRefresh, shouldCache: r => r.is_valid });
+      if (result?.is_valid) {
+        return { 
+          ...p, 
+          ...result, 
+          title: currentTitle, 
+          company: currentCompany, 
+          enrichment_status: 'success', 
+          enrichment_source: 'gemini_web',
+          enriched_at: createdAt,
+          force_refresh: false,
+          cached: hit
+        };
+      }
+
+      await throttle();
+      const fallback = await inferFromTitle(currentTitle, currentCompany);
+      return { 
+        ...p, 
+        background: `Professional connection.`, 
+        what_they_do: fallback.typical_responsibilities, 
+        skills: fallback.typical_skills, 
+        provenance: inferredProvenance(['background', 'what_they_do', 'skills']),
+        title: currentTitle, 
+        company: currentCompany, 
+        enrichment_status: 'fallback', 
+        enrichment_source: 'title_inference',
+        enriched_at: Date.now(),
+        force_refresh: false,
+        cached: false
+      };
+    };
+
+    // Cached and fresh results alike go through the locks, so hand corrections survive re-runs.
+    const enrichProfile = async (p: Profile, ctx: JobContext) => {
+      const { requeued_from, ...result } = respectLocks(p, await research(p, ctx));
+      return result;
+    };
+
+    // A re-run that fails keeps the earlier research rather than discarding it.
+    const failed = (p: Profile, attempts: number): Profile => {
+      const { requeued_from, ...rest } = p;
+      if (requeued_from === 'success' || requeued_from === 'fallback') {
+        return { ...rest, enrichment_status: requeued_from, force_refresh: false, enrichment_attempts: attempts };
+      }
+      return { ...rest, enrichment_status: 'error', enrichment_source: 'none', enrichment_attempts: attempts };
+    };
 
     const startEnrichment = async () => {
-      const enriched: Profile[] = [];
-      for (let i = 0; i < profiles.length; i++) {
-        const p = profiles[i];
-        let currentTitle = p.title;
-        let currentCompany = p.company;
-
-        setProgress(prev => ({ ...prev, current: i + 1, currentName: p.name, percentage: (((i + 1) / profiles.length) * 100).toFixed(1) }));
-
-        // Role discovery if still missing (last resort)
-        if (!currentTitle || !currentCompany) {
-          setProgress(prev => ({ ...prev, phase: 'identifying' }));
-          const discovered = await identifyRole(p.name, p.linkedin_url);
-          currentTitle = discovered.title || currentTitle;
-          currentCompany = discovered.company || currentCompany;
+      const outcomes = await runQueue(queued, enrichProfile, {}, {
+        onStart: (p) => !unmounted && setProgress(prev => ({ ...prev, currentName: p.name, active: prev.active + 1 })),
+        onRetry: (p, _i, attempt, _error, delayMs) => {
+          if (unmounted) return;
+          setProgress(prev => ({ ...prev, retries: prev.retries + 1 }));
+          addLog({ name: p.name, status: 'retrying', message: `Retry ${attempt} in ${Math.ceil(delayMs / 1000)}s` });
+        },
+        onSuccess: (p, i, { cached, ...result }, attempts) => {
+          if (unmounted) return;
+          markDone(i, { ...result, enrichment_attempts: attempts });
+          if (cached) setProgress(prev => ({ ...prev, cacheHits: prev.cacheHits + 1 }));
+          addLog(result.identity_status === 'needs_review'
+            ? { name: p.name, status: 'review', message: `${result.identity_candidates?.length} possible matches — needs review` }
+            : result.enrichment_status === 'fallback'
+            ? { name: p.name, status: 'fallback', message: 'Inferred from title' }
+            : { name: p.name, status: 'success', message: cached ? 'Loaded from cache' : 'Extracted', cached });
+        },
+        onFailure: (p, i, _error, attempts) => {
+          if (unmounted) return;
+          markDone(i, failed(p, attempts));
+          addLog({ name: p.name, status: 'error', message: p.requeued_from && p.requeued_from !== 'error' ? 'Error — kept previous research' : 'Error' });
         }
+      }, run);
+      if (unmounted) return;
 
-        setProgress(prev => ({ ...prev, phase: 'extracting' }));
-        try {
-          const result = await enrichWithGemini(p.name, currentTitle, currentCompany, p.linkedin_url);
-          if (result.is_valid) {
-            enriched.push({ 
-              ...p, 
-              ...result, 
-              title: currentTitle, 
-              company: currentCompany, 
-              enrichment_status: 'success', 
-              enrichment_source: 'gemini_web' 
-            });
-          } else {
-            const fallback = await inferFromTitle(currentTitle, currentCompany);
-            enriched.push({ 
-              ...p, 
-              background: `Professional connection.`, 
-              what_they_do: fallback.typical_responsibilities, 
-              skills: fallback.typical_skills, 
-              title: currentTitle, 
-              company: currentCompany, 
-              enrichment_status: 'fallback', 
-              enrichment_source: 'title_inference' 
-            });
-          }
-          setProgress(prev => ({ ...prev, logs: [{ name: p.name, status: 'success' as const, message: 'Extracted' }, ...prev.logs].slice(0, 50) }));
-        } catch (e) {
-          enriched.push({ ...p, enrichment_status: 'error', enrichment_source: 'none' });
-          setProgress(prev => ({ ...prev, logs: [{ name: p.name, status: 'error' as const, message: 'Error' }, ...prev.logs].slice(0, 50) }));
+      // Cancelled runs leave unprocessed profiles as 'pending' so they can be enriched later;
+      // re-runs queued from the results view go back to how they were.
+      const enriched = [...profiles];
+      outcomes.forEach((outcome, i) => {
+        const idx = pendingIndices.current[i];
+        if (outcome.status === 'fulfilled') {
+          const { cached, ...profile } = outcome.value;
+          enriched[idx] = { ...profile, enrichment_attempts: outcome.attempts };
+        } else if (outcome.status === 'rejected') {
+          enriched[idx] = failed(profiles[idx], outcome.attempts);
+        } else if (profiles[idx].requeued_from) {
+          const { requeued_from, ...rest } = profiles[idx];
+          enriched[idx] = { ...rest, enrichment_status: requeued_from, force_refresh: false };
         }
-        await sleep(1500);
+      });
+      // Vectors for similarity search; a failing backend only costs the similarity features.
+      let vectors = new Map<string, ProfileEmbedding>();
+      try {
+        vectors = await embedProfiles(enriched);
+      } catch (e) {
+        console.error("Embedding failed:", e);
       }
-      onComplete(enriched);
+      if (!unmounted) onComplete(applyEmbeddings(enriched, vectors));
     };
     startEnrichment();
-  }, [profiles, onComplete]);
+
+    return () => {
+      unmounted = true;
+      unsubscribe();
+      run.cancel();
+    };
+  }, []);
 
   return (
     <div className="max-w-4xl mx-auto py-12 px-4 animate-fadeIn">
@@ -418,11 +1109,24 @@ function ProgressPage({ profiles, onComplete }: { profiles: Profile[], onComplet
               <h2 className="text-3xl font-black text-slate-50 tracking-tight">AI Enrichment</h2>
               <div className="flex items-center gap-2 mt-2">
                 <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${progress.phase === 'identifying' ? 'bg-amber-500/20 text-amber-400 border border-amber-500/20' : 'bg-blue-500/20 text-blue-400 border border-blue-500/20'}`}>
-                  {progress.phase === 'identifying' ? 'Role Discovery' : 'Intelligence Extraction'}
+                  {runState === 'paused' ? 'Paused' : progress.phase === 'identifying' ? 'Role Discovery' : 'Intelligence Extraction'}
+                </span>
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                  {progress.current}/{progress.total} done • {progress.active} active{progress.retries > 0 ? ` • ${progress.retries} retries` : ''}{progress.cacheHits > 0 ? ` • ${progress.cacheHits} cached` : ''}
                 </span>
               </div>
             </div>
-            <span className="text-5xl font-black text-blue-500">{progress.percentage}%</span>
+            <div className="flex items-center gap-4">
+              <div className="flex gap-2">
+                {runState === 'paused' ? (
+                  <button onClick={() => controller.current.resume()} className="bg-blue-600 hover:bg-blue-500 text-white text-[10px] px-3 py-1.5 rounded-lg font-bold transition-all">Resume</button>
+                ) : (
+                  <button onClick={() => controller.current.pause()} disabled={runState === 'cancelled'} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-50">Pause</button>
+                )}
+                <button onClick={() => controller.current.cancel()} disabled={runState === 'cancelled'} className="bg-slate-800 hover:bg-red-500/20 text-red-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-50">Cancel</button>
+              </div>
+              <span className="text-5xl font-black text-blue-500">{progress.percentage}%</span>
+            </div>
           </div>
           <div className="w-full bg-slate-800 rounded-full h-3 overflow-hidden shadow-inner">
             <div className="bg-gradient-to-r from-blue-600 to-cyan-400 h-full transition-all duration-700" style={{ width: `${progress.percentage}%` }}></div>
@@ -431,8 +1135,17 @@ function ProgressPage({ profiles, onComplete }: { profiles: Profile[], onComplet
         <div className="p-10 h-[300px] overflow-y-auto custom-scrollbar space-y-2">
           {progress.logs.map((log, i) => (
             <div key={i} className="flex items-center gap-4 bg-slate-950/40 p-4 rounded-xl border border-slate-800">
-              <div className={`w-2 h-2 rounded-full ${log.status === 'success' ? 'bg-emerald-500' : 'bg-red-500'}`}></div>
+              <div className={`w-2 h-2 rounded-full ${
+                log.status === 'success' ? 'bg-emerald-500' :
+                log.status === 'fallback' ? 'bg-amber-500' :
+                log.status === 'retrying' ? 'bg-sky-500' :
+                log.status === 'review' ? 'bg-violet-500' :
+                'bg-red-500'
+              }`}></div>
               <span className="font-bold text-slate-200">{log.name}</span>
+              {log.cached && (
+                <span className="bg-violet-500/10 text-violet-400 text-[10px] px-2 py-0.5 rounded-full font-black border border-violet-500/20">CACHE HIT</span>
+              )}
               <span className="text-slate-500 text-xs ml-auto">{log.message}</span>
             </div>
           ))}
@@ -442,18 +1155,66 @@ function ProgressPage({ profiles, onComplete }: { profiles: Profile[], onComplet
   );
 }
 
-function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Local matches handed to the agent for re-ranking; more costs tokens without changing the top results.
+const RERANK_LIMIT = 25;
+const SIMILAR_LIMIT = 12;
+
+// Research with no recorded date (e.g. restored from an older export) counts as stale.
+const isStale = (p: Profile, days: number) =>
+  (p.enrichment_status === 'success' || p.enrichment_status === 'fallback') && (!p.enriched_at || Date.now() - p.enriched_at > days * DAY_MS);
+
+function ResultsPage({ profiles: initialProfiles, insights, conversation, pinnedSets, onProfilesChange, onInsightsChange, onConversationChange, onPinnedSetsChange, onReviewIdentities, onReenrich }: { 
+  profiles: Profile[],
+  insights: string | null,
+  conversation: AgentTurn[],
+  pinnedSets: PinnedResultSet[],
+  onProfilesChange: (profiles: Profile[]) => void,
+  onInsightsChange: (insights: string | null) => void,
+  onConversationChange: (turns: AgentTurn[]) => void,
+  onPinnedSetsChange: (pins: PinnedResultSet[]) => void,
+  onReviewIdentities: () => void,
+  // Receives the full list with the chosen profiles queued again as 'pending'.
+  onReenrich: (profiles: Profile[]) => void
+}) {
   const [searchQuery, setSearchQuery] = useState('');
   const [isAgentThinking, setIsAgentThinking] = useState(false);
   const [profiles, setProfiles] = useState(initialProfiles);
   const [results, setResults] = useState(initialProfiles);
-  const [selectedRegion, setSelectedRegion] = useState('All Regions');
+  const [facetFilters, setFacetFilters] = useState<FacetFilters>({});
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [activeTab, setActiveTab] = useState<'profiles' | 'insights'>('profiles');
-  const [globalInsights, setGlobalInsights] = useState<string | null>(null);
+  const [globalInsights, setGlobalInsights] = useState<string | null>(insights);
   const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
+  const [staleDays, setStaleDays] = useState(30);
+  const searchIndex = useMemo(() => buildSearchIndex(profiles), [profiles]);
+  const [similarTo, setSimilarTo] = useState<Profile | null>(null);
+
+  // Chat with the agent; its answers and pinned sets replace the results like a search does.
+  const [chatOpen, setChatOpen] = useState(false);
+  const [chatTurns, setChatTurns] = useState<AgentTurn[]>(conversation);
+  const [pins, setPins] = useState<PinnedResultSet[]>(pinnedSets);
+  const [isChatThinking, setIsChatThinking] = useState(false);
+  const [shownSet, setShownSet] = useState<{ id: string, label: string } | null>(null);
+  const [openProfileId, setOpenProfileId] = useState<string | null>(null);
+  const openProfile = profiles.find(p => p.id === openProfileId);
 
-  const regions = ['All Regions', ...Array.from(new Set(profiles.map(p => p.region).filter(Boolean))) as string[]];
+  const facets = useMemo(() => facetDefinitions(profiles), [profiles]);
+  const counts = useMemo(() => facetCounts(profiles, facets, facetFilters), [profiles, facets, facetFilters]);
+
+  // Table layout: sorting only reorders the table; the cards keep search relevance order.
+  const [layout, setLayout] = useState<'cards' | 'table'>('cards');
+  const [visibleColumns, setVisibleColumns] = useState<TableColumnId[]>(DEFAULT_TABLE_COLUMNS);
+  const [sort, setSort] = useState<SortKey[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Profiles waiting on connection suggestions; kept apart from their enrichment status.
+  const [suggesting, setSuggesting] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Profile | null>(null);
+  const columns = useMemo(() => tableColumns(profiles), [profiles]);
+  const sortedResults = useMemo(() => sortProfiles(results, columns, sort), [results, columns, sort]);
+  // Selections survive searches and filter changes; bulk actions apply to all of them.
+  const selectedProfiles = profiles.filter(p => selectedIds.has(p.id));
+  const hiddenSelected = selectedProfiles.length - results.filter(p => selectedIds.has(p.id)).length;
 
   const generateInsights = async () => {
     if (globalInsights || isGeneratingInsights) return;
@@ -470,44 +1231,144 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
 
   const handleSuggestConnections = async (profileId: string) => {
     const target = profiles.find(p => p.id === profileId);
-    if (!target || target.suggested_connections) return;
+    if (!target || target.suggested_connections || suggesting.has(profileId)) return;
 
-    // Set loading state for this profile
-    setProfiles(prev => prev.map(p => p.id === profileId ? { ...p, enrichment_status: 'processing' } : p));
-    
+    setSuggesting(prev => new Set(prev).add(profileId));
     try {
       const suggestions = await getSuggestedConnections(target, profiles);
-      setProfiles(prev => prev.map(p => p.id === profileId ? { 
-        ...p, 
-        suggested_connections: suggestions,
-        enrichment_status: 'success' 
-      } : p));
+      setProfiles(prev => prev.map(p => p.id === profileId ? { ...p, suggested_connections: suggestions } : p));
     } catch (e) {
       console.error(e);
-      setProfiles(prev => prev.map(p => p.id === profileId ? { ...p, enrichment_status: 'error' } : p));
+      alert("Could not suggest connections.");
+    } finally {
+      setSuggesting(prev => {
+        const next = new Set(prev);
+        next.delete(profileId);
+        return next;
+      });
+    }
+  };
+
+  const errors = profiles.filter(p => p.enrichment_status === 'error' && p.identity_status !== 'needs_review');
+  // "None of these" profiles were deliberately kept off the web, so they are not retried.
+  const fallbacks = profiles.filter(p => p.enrichment_status === 'fallback' && p.identity_status !== 'rejected' && p.identity_status !== 'needs_review');
+  const stale = profiles.filter(p => isStale(p, staleDays) && p.identity_status !== 'needs_review');
+  // Left over from a cancelled run.
+  const pending = profiles.filter(p => p.enrichment_status === 'pending' && p.identity_status !== 'needs_review');
+
+  const requeue = (targets: Profile[], forceRefresh: boolean, label: string) => {
+    if (targets.length === 0 || !confirm(`${label}: re-enrich ${targets.length} profiles?`)) return;
+    const ids = new Set(targets.map(p => p.id));
+    onReenrich(profiles.map(p => !ids.has(p.id) ? p : p.enrichment_status === 'pending' ? { ...p, selected: true } : {
+      ...p,
+      enrichment_status: 'pending' as const,
+      requeued_from: p.enrichment_status as Profile['requeued_from'],
+      force_refresh: forceRefresh,
+      selected: true
+    }));
+  };
+
+  const handleProfileUpdate = (edited: Profile) => {
+    // Cards show search results, which carry this query's score; the stored profile keeps its own.
+    setProfiles(prev => prev.map(p => p.id === edited.id ? { ...edited, score: p.score, match_reason: p.match_reason } : p));
+  };
+
+  const exportSelected = (format: 'csv' | 'json' | 'xlsx') => {
+    if (format === 'csv') downloadFile(exportToCSV(selectedProfiles), 'selected-profiles.csv', 'text/csv');
+    else if (format === 'json') downloadFile(exportToJSON(selectedProfiles), 'selected-profiles.json', 'application/json');
+    else downloadXLSX(selectedProfiles, 'selected-profiles.xlsx');
+  };
+
+  const handleFindSimilar = (id: string) => {
+    const target = profiles.find(p => p.id === id);
+    if (!target?.embedding) {
+      alert("This profile has not been embedded yet. Try again in a moment.");
+      return;
     }
+    const nearest = nearestProfiles(target.embedding, profiles.filter(p => p.id !== id), SIMILAR_LIMIT);
+    setSimilarTo(target);
+    setResults(nearest.map(({ profile, similarity }) => ({ ...profile, score: Math.max(0, Math.round(similarity * 100)), match_reason: undefined })));
+  };
+
+  const showMatches = (id: string, label: string, matches: AgentMatch[]) => {
+    const byId = new Map(profiles.map(p => [p.id, p]));
+    setSimilarTo(null);
+    setShownSet({ id, label });
+    setResults(matches
+      .filter(m => byId.has(m.id))
+      .map(m => ({ ...byId.get(m.id)!, score: m.score, match_reason: m.reason })));
+  };
+
+  const handleChatSend = async (message: string) => {
+    const history = chatTurns;
+    const at = Date.now();
+    setChatTurns([...history, { id: `turn-${at}-user`, role: 'user', text: message, at }]);
+    setIsChatThinking(true);
+    try {
+      // Follow-ups work on what is on screen; new searches draw from everyone the filters allow.
+      const pool = applyFacets(profiles, facets, facetFilters);
+      const { action, reply, results: matches, error } = await converseWithAgent(message, history, results, pool);
+      const changesResults = !error && action !== 'explain' && action !== 'answer';
+      const turn: AgentTurn = { id: `turn-${at}-agent`, role: 'agent', text: reply, at: Date.now(), action, results: changesResults ? matches : undefined, error };
+      setChatTurns(prev => [...prev, turn]);
+      if (changesResults) showMatches(turn.id, message, matches);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsChatThinking(false);
+    }
+  };
+
+  // A pin is named after the message that produced its results.
+  const handlePin = (turn: AgentTurn) => {
+    if (!turn.results || pins.some(p => p.id === turn.id)) return;
+    const index = chatTurns.findIndex(t => t.id === turn.id);
+    const asked = chatTurns.slice(0, index).reverse().find(t => t.role === 'user');
+    setPins(prev => [...prev, { id: turn.id, label: asked?.text || 'Agent results', results: turn.results!, createdAt: Date.now() }]);
+  };
+
+  const handleNewChat = () => {
+    if (!confirm("Start a new conversation? Pinned result sets are kept.")) return;
+    setChatTurns([]);
   };
 
   const handleAgentSearch = async () => {
-    const q = searchQuery.toLowerCase().trim();
+    const q = searchQuery.trim();
+    setSimilarTo(null);
+    setShownSet(null);
     setIsAgentThinking(true);
     try {
-      let filtered = profiles;
-      if (selectedRegion !== 'All Regions') {
-        filtered = filtered.filter(p => p.region === selectedRegion);
-      }
+      const filtered = applyFacets(profiles, facets, facetFilters);
 
-      if (!q) {
+      // Filler alone ("find me someone") is no query at all, so it shows everyone rather than no one.
+      if (isEmptyQuery(q)) {
         setResults(filtered);
         return;
       }
-      
-      // If the query is complex or long, use Gemini
+
+      // Ranked locally first; the agent only sees the best few, never the whole list.
+      const inScope = new Set(filtered.map(p => p.id));
+      const byId = new Map(filtered.map(p => [p.id, p]));
+      const hits = searchIndex.search(q, filtered.length, inScope);
+      const local = hits.map(h => byId.get(h.id)!);
+      setResults(local);
+
+      // If the query is complex or long, let the agent re-rank the top keyword and meaning matches
       if (q.length > 10) {
-        const recommendations = await recommendProfiles(q, filtered);
+        let semantic: Profile[] = [];
+        try {
+          semantic = (await nearestToQuery(q, filtered, RERANK_LIMIT)).map(n => n.profile);
+        } catch (e) {
+          console.error("Query embedding failed:", e);
+        }
+        const candidates = fuseRankings([local.slice(0, RERANK_LIMIT), semantic].map(list => list.map(p => p.id)))
+          .slice(0, RERANK_LIMIT)
+          .map(id => byId.get(id)!);
+        if (candidates.length === 0) return;
+        const recommendations = await recommendProfiles(q, candidates);
         if (recommendations.length > 0) {
           const recMap = new Map(recommendations.map(r => [r.id, r]));
-          const matchedProfiles = filtered
+          const matchedProfiles = candidates
             .filter(p => recMap.has(p.id))
             .map(p => ({
               ...p,
@@ -517,17 +1378,7 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
             .sort((a, b) => (b.score || 0) - (a.score || 0));
           
           setResults(matchedProfiles);
-        } else {
-          setResults(filtered.filter(p => {
-            const text = `${p.name} ${p.title} ${p.company} ${p.background} ${(p.skills || []).join(' ')}`.toLowerCase();
-            return text.includes(q);
-          }));
         }
-      } else {
-        setResults(filtered.filter(p => {
-          const text = `${p.name} ${p.title} ${p.company} ${p.background} ${(p.skills || []).join(' ')}`.toLowerCase();
-          return text.includes(q);
-        }));
       }
     } catch (e) {
       console.error(e);
@@ -536,9 +1387,46 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
     }
   };
 
+  // Only a new query or filter re-runs the search; agent answers and pinned sets stay on screen otherwise.
   useEffect(() => {
     handleAgentSearch();
-  }, [selectedRegion, profiles]);
+  }, [facetFilters]);
+
+  // Edits, suggested connections and new vectors refresh the rows on screen in place, keeping this
+  // search's scores and reasons.
+  useEffect(() => {
+    const byId = new Map(profiles.map(p => [p.id, p]));
+    setResults(prev => prev
+      .filter(r => byId.has(r.id))
+      .map(r => ({ ...byId.get(r.id)!, score: r.score, match_reason: r.match_reason })));
+  }, [profiles]);
+
+  useEffect(() => {
+    if (profiles !== initialProfiles) onProfilesChange(profiles);
+  }, [profiles]);
+
+  // Restored, edited or re-enriched profiles get fresh vectors; unchanged ones are skipped.
+  useEffect(() => {
+    let cancelled = false;
+    embedProfiles(profiles)
+      .then(vectors => {
+        if (!cancelled && vectors.size > 0) setProfiles(prev => applyEmbeddings(prev, vectors));
+      })
+      .catch(e => console.error("Embedding failed:", e));
+    return () => { cancelled = true; };
+  }, [profiles]);
+
+  useEffect(() => {
+    if (globalInsights !== insights) onInsightsChange(globalInsights);
+  }, [globalInsights]);
+
+  useEffect(() => {
+    if (chatTurns !== conversation) onConversationChange(chatTurns);
+  }, [chatTurns]);
+
+  useEffect(() => {
+    if (pins !== pinnedSets) onPinnedSetsChange(pins);
+  }, [pins]);
 
   useEffect(() => {
     if (activeTab === 'insights') {
@@ -546,8 +1434,90 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
     }
   }, [activeTab]);
 
+  const awaitingReview = profiles.filter(p => p.identity_status === 'needs_review').length;
+
   return (
     <div className="max-w-6xl mx-auto py-12 px-4 animate-fadeIn">
+      {editing && <ProfileEditor profile={editing} onSave={handleProfileUpdate} onClose={() => setEditing(null)} />}
+      {chatOpen && (
+        <AgentChat
+          turns={chatTurns}
+          pins={pins}
+          profiles={profiles}
+          isThinking={isChatThinking}
+          activeSetId={shownSet?.id || null}
+          onSend={handleChatSend}
+          onShowTurn={(turn) => {
+            const asked = chatTurns.slice(0, chatTurns.indexOf(turn)).reverse().find(t => t.role === 'user');
+            showMatches(turn.id, asked?.text || 'Agent results', turn.results || []);
+          }}
+          onPin={handlePin}
+          onShowPin={(pin) => showMatches(pin.id, pin.label, pin.results)}
+          onUnpin={(id) => setPins(prev => prev.filter(p => p.id !== id))}
+          onOpenProfile={setOpenProfileId}
+          onClear={handleNewChat}
+          onClose={() => setChatOpen(false)}
+        />
+      )}
+      {openProfile && (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[200] flex items-center justify-center px-4" onClick={() => setOpenProfileId(null)}>
+          <div className="max-w-2xl w-full max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+            <ProfileCard
+              profile={openProfile}
+              onSuggestConnections={() => handleSuggestConnections(openProfile.id)}
+              isSuggesting={suggesting.has(openProfile.id)}
+              allProfiles={profiles}
+              onUpdate={handleProfileUpdate}
+            />
+            <button onClick={() => setOpenProfileId(null)} className="mt-4 w-full text-xs text-slate-500 hover:text-slate-300 font-bold">Close</button>
+          </div>
+        </div>
+      )}
+      {awaitingReview > 0 && (
+        <div className="mb-8 flex items-center justify-between gap-4 bg-violet-500/5 border border-violet-500/20 px-6 py-4 rounded-2xl">
+          <p className="text-sm text-violet-300">{awaitingReview} attendees are waiting for you to confirm who they are before they can be enriched.</p>
+          <button onClick={onReviewIdentities} className="bg-violet-600 hover:bg-violet-500 text-white text-xs px-4 py-2 rounded-xl font-bold transition-all">Review Identities</button>
+        </div>
+      )}
+      {(errors.length > 0 || fallbacks.length > 0 || stale.length > 0 || pending.length > 0) && (
+        <div className="mb-8 flex flex-wrap items-center gap-3 bg-slate-900/40 border border-slate-800 px-6 py-4 rounded-2xl">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mr-2">Re-enrich</span>
+          {pending.length > 0 && (
+            <button 
+              onClick={() => requeue(pending, false, 'Resume pending')} 
+              className="bg-slate-800 hover:bg-slate-700 text-emerald-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all"
+              title="Profiles not reached before a run was cancelled"
+            >Resume {pending.length} Pending</button>
+          )}
+          <button 
+            onClick={() => requeue(errors, false, 'Retry errors')} 
+            disabled={errors.length === 0}
+            className="bg-slate-800 hover:bg-slate-700 text-red-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-40"
+          >Retry {errors.length} Errors</button>
+          <button 
+            onClick={() => requeue(fallbacks, true, 'Retry fallbacks with web search')} 
+            disabled={fallbacks.length === 0}
+            className="bg-slate-800 hover:bg-slate-700 text-amber-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-40"
+            title="Profiles inferred from their title only"
+          >Web-Search {fallbacks.length} Fallbacks</button>
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={() => requeue(stale, true, `Refresh research older than ${staleDays} days`)} 
+              disabled={stale.length === 0}
+              className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all disabled:opacity-40"
+              title="Includes profiles with no recorded enrichment date"
+            >Refresh {stale.length} Older Than</button>
+            <input 
+              type="number" 
+              min={1} 
+              value={staleDays} 
+              onChange={(e) => setStaleDays(Math.max(1, Number(e.target.value) || 1))}
+              className="w-16 bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-200 focus:border-blue-500 outline-none"
+            />
+            <span className="text-[10px] text-slate-500 font-bold">days</span>
+          </div>
+        </div>
+      )}
       <div className="flex justify-between items-center mb-12">
         <div>
           <h2 className="text-4xl font-black text-slate-50 tracking-tight">Intelligence Dashboard</h2>
@@ -625,35 +1595,96 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
                 {isAgentThinking ? 'Analyzing...' : 'Ask Agent'}
               </button>
             </div>
+            <button 
+              onClick={() => setChatOpen(!chatOpen)}
+              className={`px-8 rounded-3xl font-black border transition-all flex items-center justify-center gap-2 py-4 md:py-0 ${chatOpen ? 'bg-blue-600/10 border-blue-500/50 text-blue-300' : 'bg-slate-900 border-slate-800 text-slate-300 hover:border-slate-700'}`}
+              title="Follow up on the results in a conversation"
+            >
+              <span>💬</span> Chat{chatTurns.length > 0 && <span className="text-[10px] text-slate-500">{chatTurns.filter(t => t.role === 'user').length}</span>}
+            </button>
+          </div>
 
-            <div className="md:w-64">
-              <select 
-                value={selectedRegion}
-                onChange={(e) => setSelectedRegion(e.target.value)}
-                className="w-full bg-slate-900 border border-slate-800 rounded-3xl px-6 py-8 text-slate-300 focus:border-blue-500 outline-none appearance-none cursor-pointer font-bold h-full shadow-2xl"
-                style={{ backgroundImage: 'url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns=\'http://www.w3.org/2000/svg\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'currentColor\' stroke-width=\'2\' stroke-linecap=\'round\' stroke-linejoin=\'round\'%3e%3cpolyline points=\'6 9 12 15 18 9\'%3e%3c/polyline%3e%3c/svg%3e")', backgroundRepeat: 'no-repeat', backgroundPosition: 'right 1.5rem center', backgroundSize: '1.2em' }}
-              >
-                {regions.map(r => <option key={r} value={r}>{r}</option>)}
-              </select>
+          {shownSet && (
+            <div className="mb-8 flex items-center justify-between gap-4 bg-blue-500/5 border border-blue-500/20 px-6 py-4 rounded-2xl">
+              <p className="text-sm text-blue-300 truncate">Agent results for <span className="font-black">"{shownSet.label}"</span></p>
+              <button onClick={handleAgentSearch} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs px-4 py-2 rounded-xl font-bold border border-slate-700 transition-all shrink-0">Back to Search</button>
             </div>
-          </div>
+          )}
 
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {results.map(p => (
-              <ProfileCard 
-                key={p.id} 
-                profile={p} 
-                onSuggestConnections={() => handleSuggestConnections(p.id)}
-                allProfiles={profiles}
-              />
-            ))}
-          </div>
-          {results.length === 0 && (
-            <div className="text-center py-20 bg-slate-900/40 rounded-3xl border border-slate-800 border-dashed">
-              <div className="text-5xl mb-4 opacity-30">🕵️‍♂️</div>
-              <p className="text-slate-500 text-xl font-light">No matches found for your criteria.</p>
+          {similarTo && (
+            <div className="mb-8 flex items-center justify-between gap-4 bg-blue-500/5 border border-blue-500/20 px-6 py-4 rounded-2xl">
+              <p className="text-sm text-blue-300">People most similar to <span className="font-black">{similarTo.name}</span>, by their enriched background, skills and career.</p>
+              <button onClick={handleAgentSearch} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs px-4 py-2 rounded-xl font-bold border border-slate-700 transition-all">Back to Search</button>
             </div>
           )}
+
+          <div className="flex flex-col md:flex-row gap-8 items-start">
+            <div className="md:w-64 shrink-0 md:sticky md:top-24 w-full">
+              <FacetSidebar facets={facets} counts={counts} filters={facetFilters} onChange={setFacetFilters} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                {selectedIds.size > 0 ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-slate-300 font-bold mr-1">
+                      {selectedIds.size} selected{hiddenSelected > 0 && <span className="text-slate-500 font-normal"> ({hiddenSelected} hidden by filters)</span>}
+                    </span>
+                    <button onClick={() => exportSelected('csv')} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">CSV</button>
+                    <button onClick={() => exportSelected('json')} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">JSON</button>
+                    <button onClick={() => exportSelected('xlsx')} className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">XLSX</button>
+                    <button onClick={() => requeue(selectedProfiles, true, 'Re-enrich selected')} className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all">Re-enrich</button>
+                    <button onClick={() => setSelectedIds(new Set())} className="text-[10px] font-bold text-slate-500 hover:text-slate-300 px-2">Clear</button>
+                  </div>
+                ) : <span />}
+                <div className="bg-slate-900/50 p-1 rounded-xl border border-slate-800 flex gap-1">
+                  <button 
+                    onClick={() => setLayout('cards')}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${layout === 'cards' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >Cards</button>
+                  <button 
+                    onClick={() => setLayout('table')}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${layout === 'table' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >Table</button>
+                </div>
+              </div>
+              {layout === 'table' ? (
+                results.length > 0 && (
+                  <ProfileTable
+                    profiles={sortedResults}
+                    columns={columns}
+                    visibleColumns={visibleColumns}
+                    onColumnsChange={setVisibleColumns}
+                    sort={sort}
+                    onSortChange={setSort}
+                    selectedIds={selectedIds}
+                    onSelectionChange={setSelectedIds}
+                    onEdit={setEditing}
+                    onFindSimilar={(p) => handleFindSimilar(p.id)}
+                  />
+                )
+              ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                  {results.map(p => (
+                    <ProfileCard 
+                      key={p.id} 
+                      profile={p} 
+                      onSuggestConnections={() => handleSuggestConnections(p.id)}
+                      isSuggesting={suggesting.has(p.id)}
+                      allProfiles={profiles}
+                      onUpdate={handleProfileUpdate}
+                      onFindSimilar={() => handleFindSimilar(p.id)}
+                    />
+                  ))}
+                </div>
+              )}
+              {results.length === 0 && (
+                <div className="text-center py-20 bg-slate-900/40 rounded-3xl border border-slate-800 border-dashed">
+                  <div className="text-5xl mb-4 opacity-30">🕵️‍♂️</div>
+                  <p className="text-slate-500 text-xl font-light">No matches found for your criteria.</p>
+                </div>
+              )}
+            </div>
+          </div>
         </>
       ) : (
         <div className="bg-slate-900/40 border border-slate-800 rounded-[2.5rem] p-12 shadow-2xl min-h-[500px]">
@@ -673,7 +1704,7 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
                 <Markdown>{globalInsights}</Markdown>
               </div>
               <div className="mt-12 pt-8 border-t border-slate-800 flex justify-between items-center">
-                <p className="text-xs text-slate-600 uppercase font-black tracking-widest">Generated by Gemini 3 Flash</p>
+                <p className="text-xs text-slate-600 uppercase font-black tracking-widest">Generated by {getProvider().label}</p>
                 <button 
                   onClick={() => { setGlobalInsights(null); generateInsights(); }}
                   className="text-blue-500 text-xs font-bold hover:text-blue-400 transition-colors"
@@ -692,31 +1723,211 @@ function ResultsPage({ profiles: initialProfiles }: { profiles: Profile[] }) {
   );
 }
 
+const DEFAULT_WORKSPACE_NAME = 'Untitled Workspace';
+
 export default function App() {
-  const [view, setView] = useState<'upload' | 'mapping' | 'select' | 'enriching' | 'results'>('upload');
-  const [rawCSV, setRawCSV] = useState<{ headers: string[], rows: string[][] }>({ headers: [], rows: [] });
-  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [workspaceList, setWorkspaceList] = useState<WorkspaceSummary[]>([]);
+
+  const update = (patch: Partial<Workspace>) => {
+    setWorkspace(prev => prev && { ...prev, ...patch });
+  };
+
+  const openWorkspace = (ws: Workspace) => {
+    setWorkspace(ws);
+    setActiveWorkspaceId(ws.id);
+  };
+
+  const refreshWorkspaceList = () => {
+    listWorkspaces().then(setWorkspaceList).catch(console.error);
+  };
+
+  useEffect(() => {
+    const restore = async () => {
+      let ws: Workspace | null = null;
+      try {
+        const id = getActiveWorkspaceId();
+        if (id) ws = await loadWorkspace(id);
+      } catch (e) {
+        console.error("Workspace restore failed:", e);
+      }
+      openWorkspace(ws || createWorkspace(DEFAULT_WORKSPACE_NAME));
+    };
+    restore();
+  }, []);
+
+  // Autosave: every state change (including per-profile progress during enrichment) is written shortly after.
+  useEffect(() => {
+    if (!workspace) return;
+    const timer = setTimeout(() => {
+      saveWorkspace(workspace).catch(e => console.error("Workspace autosave failed:", e));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [workspace]);
+
+  const switchWorkspace = async (id: string) => {
+    if (!workspace || id === workspace.id) return;
+    try {
+      await saveWorkspace(workspace);
+      const ws = await loadWorkspace(id);
+      if (ws) openWorkspace(ws);
+    } catch (e) {
+      console.error(e);
+      alert("Could not switch workspace.");
+    }
+  };
+
+  const newWorkspace = async () => {
+    const ws = createWorkspace(DEFAULT_WORKSPACE_NAME);
+    try {
+      if (workspace) await saveWorkspace(workspace);
+      await saveWorkspace(ws);
+    } catch (e) {
+      console.error(e);
+      alert("Could not create workspace.");
+      return;
+    }
+    openWorkspace(ws);
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    if (workspace && id === workspace.id) {
+      update({ name });
+    } else {
+      await renameWorkspace(id, name);
+    }
+    setWorkspaceList(prev => prev.map(ws => ws.id === id ? { ...ws, name } : ws));
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteWorkspace(id);
+    } catch (e) {
+      console.error(e);
+      alert("Could not delete workspace.");
+      return;
+    }
+    const remaining = workspaceList.filter(ws => ws.id !== id);
+    setWorkspaceList(remaining);
+    if (workspace && id === workspace.id) {
+      // The current workspace is gone, so a failed load falls back to a fresh one.
+      let next: Workspace | null = null;
+      try {
+        if (remaining.length > 0) next = await loadWorkspace(remaining[0].id);
+      } catch (e) {
+        console.error(e);
+        alert("Could not open the next workspace.");
+      }
+      openWorkspace(next || createWorkspace(DEFAULT_WORKSPACE_NAME));
+    }
+  };
+
+  // Name fresh workspaces after the first file loaded into them, e.g. one per event.
+  const nameFromFile = (fileName: string) => {
+    if (workspace?.name !== DEFAULT_WORKSPACE_NAME) return {};
+    return { name: fileName.replace(/\.[^.]+$/, '') || DEFAULT_WORKSPACE_NAME };
+  };
+
+  // Joins incoming profiles into the workspace. Records with a known id replace the stored copy.
+  const joinProfiles = (incoming: Profile[]): Partial<Workspace> => {
+    // A restored (already enriched) record for someone in the workspace replaces that person.
+    // New raw rows go through dedupe instead, so enriched research is never overwritten.
+    const existing = workspace?.profiles || [];
+    const bySlug = new Map(existing.map(p => [linkedinSlug(p.linkedin_url), p.id] as const).filter(([slug]) => slug));
+    const restored = incoming.filter(p => p.enrichment_status !== 'pending').map(p => {
+      const slug = linkedinSlug(p.linkedin_url);
+      const existingId = bySlug.get(slug);
+      if (!existingId) return p.id ? p : { ...p, id: profileId(p) };
+      bySlug.delete(slug);
+      return { ...p, id: existingId };
+    });
+    const fresh = withUniqueIds(
+      incoming.filter(p => p.enrichment_status === 'pending'),
+      [...existing.map(p => p.id), ...restored.map(p => p.id)]
+    );
+    incoming = [...restored, ...fresh];
+    const incomingIds = new Set(incoming.map(p => p.id));
+    const joined = [...(workspace?.profiles || []).filter(p => !incomingIds.has(p.id)), ...incoming];
+    const view = findDuplicateClusters(joined).length > 0 ? 'dedupe'
+      : joined.some(p => p.enrichment_status === 'pending') ? 'select'
+      : 'results';
+    return { profiles: joined, view };
+  };
+
+  if (!workspace) return null;
+  const { view, profiles } = workspace;
 
   return (
     <Router>
       <div className="min-h-screen flex flex-col text-slate-200 selection:bg-blue-500/30">
         <nav className="p-8 backdrop-blur-md sticky top-0 z-50 border-b border-slate-800/40 bg-slate-950/20 flex justify-between items-center">
-          <div className="font-black text-2xl tracking-tighter flex items-center gap-3 cursor-pointer group" onClick={() => setView('upload')}>
+          <div className="font-black text-2xl tracking-tighter flex items-center gap-3 cursor-pointer group" onClick={() => update({ view: 'upload' })}>
             <span className="bg-blue-600 text-white w-10 h-10 flex items-center justify-center rounded-xl shadow-[0_0_15px_rgba(37,99,235,0.4)] transition-transform">L</span>
             <span className="group-hover:text-blue-400 transition-colors">LinkedIn Recommender</span>
           </div>
-          <button onClick={() => setView('upload')} className="text-[10px] font-black uppercase text-slate-500 hover:text-blue-400 tracking-widest transition-colors">New Session</button>
+          <div className="flex items-center gap-6">
+            <WorkspaceSwitcher
+              currentId={workspace.id}
+              currentName={workspace.name}
+              workspaces={workspaceList}
+              onOpen={refreshWorkspaceList}
+              onSwitch={switchWorkspace}
+              onCreate={newWorkspace}
+              onRename={handleRename}
+              onDelete={handleDelete}
+            />
+            <button onClick={newWorkspace} className="text-[10px] font-black uppercase text-slate-500 hover:text-blue-400 tracking-widest transition-colors">New Session</button>
+          </div>
         </nav>
         
-        <main className="max-w-7xl mx-auto w-full flex-grow pb-12">
+        <main key={workspace.id} className="max-w-7xl mx-auto w-full flex-grow pb-12">
           {view === 'upload' && <UploadPage 
-            onRawLoad={(h, r) => { setRawCSV({ headers: h, rows: r }); setView('mapping'); }} 
-            onEnrichedLoad={(p) => { setProfiles(p); setView('results'); }}
+            existingCount={profiles.length}
+            onRawLoad={(files) => update({ 
+              ...nameFromFile(files[0].fileName), 
+              imports: [
+                ...workspace.imports, 
+                ...files.map((f, i) => ({ id: `src-${Date.now()}-${i}`, fileName: f.fileName, headers: f.headers, rows: f.rows, mappings: [] }))
+              ], 
+              view: 'mapping' 
+            })} 
+            onEnrichedLoad={(p, fileName) => update({ 
+              ...nameFromFile(fileName), 
+              ...joinProfiles(p.map(x => ({ ...x, sources: x.sources || [fileName] }))), 
+              insights: null 
+            })}
+          />}
+          {view === 'mapping' && <MappingPage 
+            imports={workspace.imports}
+            onImportsChange={(imports) => update({ imports })}
+            onComplete={(p) => update({ ...joinProfiles(p), imports: [] })} 
+          />}
+          {view === 'dedupe' && <DedupePage 
+            profiles={profiles} 
+            onComplete={(p) => update({ profiles: p, view: p.some(x => x.enrichment_status === 'pending') ? 'select' : 'results' })} 
+          />}
+          {view === 'select' && <SelectionPage profiles={profiles} onStart={(p) => update({ profiles: p, insights: null, view: 'enriching' })} />}
+          {view === 'enriching' && <ProgressPage 
+            profiles={profiles} 
+            onProgress={(p) => update({ profiles: p })}
+            onComplete={(p) => update({ profiles: p, view: p.some(x => x.identity_status === 'needs_review') ? 'review' : 'results' })} 
+          />}
+          {view === 'review' && <IdentityReviewPage 
+            profiles={profiles} 
+            onComplete={(p) => update({ profiles: p, view: p.some(x => x.enrichment_status === 'pending' && x.identity_status !== 'needs_review') ? 'enriching' : 'results' })} 
+          />}
+          {view === 'results' && <ResultsPage 
+            profiles={profiles} 
+            insights={workspace.insights}
+            conversation={workspace.conversation || []}
+            pinnedSets={workspace.pinnedSets || []}
+            onProfilesChange={(p) => update({ profiles: p })}
+            onInsightsChange={(insights) => update({ insights })}
+            onConversationChange={(conversation) => update({ conversation })}
+            onPinnedSetsChange={(pinnedSets) => update({ pinnedSets })}
+            onReviewIdentities={() => update({ view: 'review' })}
+            onReenrich={(p) => update({ profiles: p, view: 'enriching' })}
           />}
-          {view === 'mapping' && <MappingPage headers={rawCSV.headers} rows={rawCSV.rows} onComplete={(p) => { setProfiles(p); setView('select'); }} />}
-          {view === 'select' && <SelectionPage profiles={profiles} onStart={(p) => { setProfiles(p); setView('enriching'); }} />}
-          {view === 'enriching' && <ProgressPage profiles={profiles} onComplete={(p) => { setProfiles(p); setView('results'); }} />}
-          {view === 'results' && <ResultsPage profiles={profiles} />}
         </main>
 
         <footer className="py-8 border-t border-slate-800/40 text-center text-slate-500 text-sm bg-slate-950/40 backdrop-blur-md">
@@ -0,0 +1,180 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import Markdown from 'react-markdown';
+import { AgentTurn, PinnedResultSet, Profile } from '../types';
+
+// Result chips shown under each answer before "+N more".
+const VISIBLE_CHIPS = 6;
+const PROFILE_HREF = '#profile/';
+
+const ACTION_LABELS: Record<NonNullable<AgentTurn['action']>, string> = {
+  search: 'New search',
+  narrow: 'Narrowed',
+  refine: 'Refined',
+  explain: 'Explained',
+  answer: 'Answered'
+};
+
+/**
+ * Turns the agent's [[id]] references into links; unknown ids are dropped from the text.
+ */
+function linkProfiles(text: string, names: Map<string, string>): string {
+  return text.replace(/\[\[([^\]]+)\]\]/g, (_m, id: string) => {
+    const name = names.get(id.trim());
+    return name ? `[${name.replace(/[[\]]/g, '')}](${PROFILE_HREF}${encodeURIComponent(id.trim())})` : '';
+  });
+}
+
+interface AgentChatProps {
+  turns: AgentTurn[];
+  pins: PinnedResultSet[];
+  profiles: Profile[];
+  isThinking: boolean;
+  // Turn or pin whose results are on screen.
+  activeSetId: string | null;
+  onSend: (message: string) => void;
+  onShowTurn: (turn: AgentTurn) => void;
+  onPin: (turn: AgentTurn) => void;
+  onShowPin: (pin: PinnedResultSet) => void;
+  onUnpin: (id: string) => void;
+  onOpenProfile: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const AgentChat: React.FC<AgentChatProps> = ({
+  turns, pins, profiles, isThinking, activeSetId, onSend, onShowTurn, onPin, onShowPin, onUnpin, onOpenProfile, onClear, onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const names = new Map(profiles.map(p => [p.id, p.name]));
+  const pinnedTurns = new Set(pins.map(p => p.id));
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [turns.length, isThinking]);
+
+  const send = () => {
+    const message = draft.trim();
+    if (!message || isThinking) return;
+    onSend(message);
+    setDraft('');
+  };
+
+  const profileLink = ({ href, children }: { href?: string, children?: React.ReactNode }) => href?.startsWith(PROFILE_HREF) ? (
+    <a
+      href={href}
+      onClick={(e) => { e.preventDefault(); onOpenProfile(decodeURIComponent(href.slice(PROFILE_HREF.length))); }}
+      className="text-blue-400 font-bold hover:text-blue-300 no-underline"
+    >{children}</a>
+  ) : (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400">{children}</a>
+  );
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 w-full sm:w-[420px] z-[150] bg-[#0b1220] border-l border-slate-800 shadow-2xl flex flex-col animate-fadeIn">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+        <div>
+          <h3 className="text-sm font-black text-slate-100">Networking Agent</h3>
+          <p className="text-[10px] text-slate-500">Follow up to narrow, refine or ask why.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {turns.length > 0 && (
+            <button onClick={onClear} className="text-[10px] font-bold text-slate-500 hover:text-slate-300">New Chat</button>
+          )}
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200 text-lg leading-none" title="Close">×</button>
+        </div>
+      </div>
+
+      {pins.length > 0 && (
+        <div className="px-5 py-3 border-b border-slate-800 space-y-1.5">
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Pinned</h4>
+          {pins.map(pin => (
+            <div key={pin.id} className="flex items-center gap-2">
+              <button
+                onClick={() => onShowPin(pin)}
+                className={`flex-1 min-w-0 text-left text-xs truncate ${activeSetId === pin.id ? 'text-blue-400 font-bold' : 'text-slate-300 hover:text-slate-100'}`}
+                title={pin.label}
+              >📌 {pin.label} <span className="text-slate-600">· {pin.results.length}</span></button>
+              <button onClick={() => onUnpin(pin.id)} className="text-[10px] text-slate-600 hover:text-red-400" title="Unpin">×</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-4">
+        {turns.length === 0 && (
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Ask for anyone, e.g. "founders working on climate tech", then follow up: "now only the ones in fintech",
+            "who has hired engineers before?" or "why not Jane?". The agent works on the results currently on screen.
+          </p>
+        )}
+        {turns.map(turn => turn.role === 'user' ? (
+          <div key={turn.id} className="flex justify-end">
+            <p className="max-w-[85%] bg-blue-600 text-white text-sm px-4 py-2.5 rounded-2xl rounded-br-md">{turn.text}</p>
+          </div>
+        ) : (
+          <div key={turn.id} className={`bg-slate-900/60 border rounded-2xl rounded-bl-md px-4 py-3 ${turn.error ? 'border-red-500/30' : activeSetId === turn.id ? 'border-blue-500/40' : 'border-slate-800'}`}>
+            {turn.error ? (
+              <span className="text-[9px] font-black uppercase tracking-widest text-red-400">Error</span>
+            ) : turn.action && (
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">{ACTION_LABELS[turn.action]}</span>
+            )}
+            <div className="markdown-body prose prose-invert prose-sm max-w-none prose-p:text-slate-300 prose-li:text-slate-300 mt-1">
+              <Markdown components={{ a: profileLink }}>{linkProfiles(turn.text, names)}</Markdown>
+            </div>
+            {turn.results && turn.results.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-1.5 mt-3">
+                  {turn.results.slice(0, VISIBLE_CHIPS).filter(r => names.has(r.id)).map(r => (
+                    <button
+                      key={r.id}
+                      onClick={() => onOpenProfile(r.id)}
+                      className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-2 py-1 rounded-md font-bold border border-slate-700 transition-all"
+                      title={r.reason}
+                    >{names.get(r.id)}{r.score !== undefined && <span className="text-blue-400 ml-1">{Math.round(r.score)}%</span>}</button>
+                  ))}
+                  {turn.results.length > VISIBLE_CHIPS && (
+                    <span className="text-[10px] text-slate-500 font-bold self-center">+{turn.results.length - VISIBLE_CHIPS} more</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 mt-3">
+                  <button onClick={() => onShowTurn(turn)} className="text-[10px] font-bold text-blue-400 hover:text-blue-300">
+                    {activeSetId === turn.id ? 'Showing' : 'Show'} {turn.results.length} results
+                  </button>
+                  <button
+                    onClick={() => onPin(turn)}
+                    disabled={pinnedTurns.has(turn.id)}
+                    className="text-[10px] font-bold text-slate-500 hover:text-slate-300 disabled:text-slate-700"
+                  >{pinnedTurns.has(turn.id) ? '📌 Pinned' : '📌 Pin'}</button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+        {isThinking && <div className="text-xs text-slate-500 flex items-center gap-2"><span className="animate-spin">🧠</span> Thinking...</div>}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="p-4 border-t border-slate-800">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && send()}
+            placeholder={turns.length === 0 ? 'Who are you looking for?' : 'Follow up...'}
+            className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm text-slate-100 focus:border-blue-500 outline-none placeholder:text-slate-600"
+          />
+          <button
+            onClick={send}
+            disabled={isThinking || !draft.trim()}
+            className="bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white px-4 rounded-xl text-sm font-black hover:bg-blue-500 transition-all"
+          >Send</button>
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default AgentChat;
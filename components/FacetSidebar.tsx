@@ -0,0 +1,97 @@
+
+import React, { useState } from 'react';
+import { FacetDefinition, FacetFilters, FacetId, FacetValueCount } from '../services/facets';
+
+const VISIBLE_VALUES = 8;
+
+interface FacetSidebarProps {
+  facets: FacetDefinition[];
+  counts: Record<string, FacetValueCount[]>;
+  filters: FacetFilters;
+  onChange: (filters: FacetFilters) => void;
+}
+
+const FacetSidebar: React.FC<FacetSidebarProps> = ({ facets, counts, filters, onChange }) => {
+  const [expanded, setExpanded] = useState<Set<FacetId>>(new Set());
+  const activeCount = Object.values(filters).reduce((sum, sel) => sum + (sel?.values.length || 0), 0);
+
+  const toggleValue = (id: FacetId, value: string) => {
+    const current = filters[id] || { values: [], mode: 'any' as const };
+    const values = current.values.includes(value) ? current.values.filter(v => v !== value) : [...current.values, value];
+    onChange({ ...filters, [id]: { ...current, values } });
+  };
+
+  const toggleMode = (id: FacetId) => {
+    const current = filters[id];
+    if (!current) return;
+    onChange({ ...filters, [id]: { ...current, mode: current.mode === 'any' ? 'all' : 'any' } });
+  };
+
+  const toggleExpanded = (id: FacetId) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <aside className="bg-slate-900/40 border border-slate-800 rounded-3xl p-5 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Filters</h3>
+        {activeCount > 0 && (
+          <button onClick={() => onChange({})} className="text-[10px] font-bold text-blue-400 hover:text-blue-300">Clear {activeCount}</button>
+        )}
+      </div>
+      {facets.map(facet => {
+        const selection = filters[facet.id];
+        const selected = selection?.values || [];
+        // Selected values stay listed (at zero) when other filters rule them out, so they can be unticked.
+        const values = [
+          ...(counts[facet.id] || []),
+          ...selected.filter(v => !(counts[facet.id] || []).some(c => c.value === v)).map(value => ({ value, count: 0 }))
+        ];
+        if (values.length === 0) return null;
+        const shown = expanded.has(facet.id) ? values : values.slice(0, VISIBLE_VALUES);
+        return (
+          <div key={facet.id}>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-bold text-slate-300 truncate">{facet.label}</h4>
+              {selected.length > 1 && (
+                <button
+                  onClick={() => toggleMode(facet.id)}
+                  className="text-[9px] font-black px-1.5 py-0.5 rounded border border-slate-700 bg-slate-800 text-slate-400 hover:text-slate-200"
+                  title={selection?.mode === 'all' ? 'Profiles must have every selected value' : 'Profiles may have any selected value'}
+                >{selection?.mode === 'all' ? 'AND' : 'OR'}</button>
+              )}
+            </div>
+            <ul className="space-y-1">
+              {shown.map(({ value, count }) => (
+                <li key={value}>
+                  <label className="flex items-center gap-2 text-xs cursor-pointer group">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(value)}
+                      onChange={() => toggleValue(facet.id, value)}
+                      className="w-3.5 h-3.5 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                    />
+                    <span className={`flex-1 truncate ${selected.includes(value) ? 'text-slate-100 font-bold' : 'text-slate-400 group-hover:text-slate-200'}`}>{value}</span>
+                    <span className="text-[10px] text-slate-600 font-bold">{count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {values.length > VISIBLE_VALUES && (
+              <button onClick={() => toggleExpanded(facet.id)} className="mt-1 text-[10px] font-bold text-slate-500 hover:text-slate-300">
+                {expanded.has(facet.id) ? 'Show less' : `Show ${values.length - VISIBLE_VALUES} more`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </aside>
+  );
+};
+
+export default FacetSidebar;
@@ -1,23 +1,69 @@
 
-import React from 'react';
-import { Profile } from '../types';
+import React, { useState } from 'react';
+import { FieldProvenance, GroundingLink, Profile, ProvenanceField } from '../types';
+import { canonicalLinkedInUrl } from '../services/linkedin';
+import { fieldLabel } from '../services/edits';
+import { formatExperienceRange } from '../services/career';
+import ProfileEditor from './ProfileEditor';
+
+const FIELD_LABELS: Record<ProvenanceField, string> = {
+  years_of_experience: 'Experience',
+  region: 'Region',
+  background: 'Background',
+  what_they_do: 'Responsibilities',
+  achievements: 'Achievements',
+  skills: 'Skills'
+};
+
+/**
+ * Confidence chip for one enriched field, with links to the sources that back it.
+ */
+const ProvenanceBadge: React.FC<{ provenance?: FieldProvenance, links?: GroundingLink[] }> = ({ provenance, links }) => {
+  if (!provenance) return null;
+  const pct = Math.round(provenance.confidence * 100);
+  return (
+    <span className="inline-flex items-center gap-1 normal-case tracking-normal">
+      <span
+        className={`text-[9px] px-1.5 py-0.5 rounded font-black border ${
+          provenance.inferred ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' :
+          pct >= 70 ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' :
+          'bg-slate-800 text-slate-400 border-slate-700'
+        }`}
+        title={provenance.inferred ? 'Inferred by the model without a supporting source' : `Backed by ${provenance.sources.length} source(s)`}
+      >
+        {provenance.inferred ? `UNSOURCED · ${pct}%` : `${pct}%`}
+      </span>
+      {provenance.sources.map(i => links?.[i] && (
+        <a key={i} href={links[i].uri} target="_blank" rel="noopener noreferrer" title={links[i].title} className="text-[9px] font-bold text-blue-500 hover:text-blue-400">[{i + 1}]</a>
+      ))}
+    </span>
+  );
+};
 
 interface ProfileCardProps {
   profile: Profile;
   onSuggestConnections?: () => void;
+  isSuggesting?: boolean;
   allProfiles?: Profile[];
+  onUpdate?: (profile: Profile) => void;
+  onFindSimilar?: () => void;
 }
 
-const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections, allProfiles }) => {
-  const getCleanUrl = (url?: string) => {
-    if (!url) return '';
-    let clean = url.trim().replace(/^["']|["']$/g, '');
-    if (!clean) return '';
-    if (clean.startsWith('http')) return clean;
-    return `https://${clean}`;
-  };
+const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections, isSuggesting, allProfiles, onUpdate, onFindSimilar }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const linkedinUrl = canonicalLinkedInUrl(profile.linkedin_url);
+  const provenance = profile.provenance || {};
+  const unsourced = (Object.keys(provenance) as ProvenanceField[]).filter(f => provenance[f]?.inferred);
+  const locked = profile.locked_fields || [];
 
-  const linkedinUrl = getCleanUrl(profile.linkedin_url);
+  // Editing swaps the card's content for the form, in place.
+  if (isEditing && onUpdate) {
+    return (
+      <div className="bg-slate-900/60 backdrop-blur-md rounded-2xl shadow-xl border border-blue-500/40 p-6">
+        <ProfileEditor profile={profile} onSave={onUpdate} onClose={() => setIsEditing(false)} inline />
+      </div>
+    );
+  }
 
   return (
     <div className={`bg-slate-900/60 backdrop-blur-md rounded-2xl shadow-xl border p-6 transition-all duration-300 group ${profile.score ? 'border-blue-500/50 bg-blue-500/5 ring-1 ring-blue-500/10' : 'border-slate-800 hover:border-blue-500/30'}`}>
@@ -34,9 +80,12 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
             </h3>
             {profile.years_of_experience && (
               <span className="bg-blue-500/20 text-blue-300 text-[10px] px-2 py-0.5 rounded-md border border-blue-500/30 font-black whitespace-nowrap">
-                {profile.years_of_experience} YRS EXP
+                {profile.experience_range ? formatExperienceRange(profile.experience_range) : profile.years_of_experience} YRS EXP
               </span>
             )}
+            {profile.years_of_experience && (
+              <ProvenanceBadge provenance={provenance.years_of_experience} links={profile.grounding_urls} />
+            )}
             {profile.score !== undefined && (
               <span className="bg-emerald-500/20 text-emerald-400 text-[10px] px-2 py-0.5 rounded-md border border-emerald-500/30 font-black whitespace-nowrap">
                 {Math.round(profile.score)}% MATCH
@@ -63,6 +112,7 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
               <div className="flex items-center gap-1 text-xs text-slate-500 font-light border-l border-slate-800 pl-3">
                 <span>📍</span>
                 <span className="truncate">{profile.region}</span>
+                <ProvenanceBadge provenance={provenance.region} links={profile.grounding_urls} />
               </div>
             )}
           </div>
@@ -75,6 +125,11 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
           }`}>
             {profile.enrichment_source.replace('_', ' ')}
           </span>
+          {locked.length > 0 && (
+            <span className="text-[10px] text-slate-500 font-bold" title={`Locked: ${locked.map(fieldLabel).join(', ')}`}>
+              🔒 {locked.length} edited
+            </span>
+          )}
         </div>
       </div>
 
@@ -86,16 +141,56 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
         </div>
       )}
 
+      {unsourced.length > 0 && (
+        <div className="mb-4 bg-amber-500/5 border border-amber-500/20 px-3 py-2 rounded-xl text-[11px] text-amber-300/90">
+          <span className="font-black mr-1">DOUBLE-CHECK:</span>
+          {unsourced.map(f => FIELD_LABELS[f]).join(', ')} {unsourced.length === 1 ? 'was' : 'were'} inferred without a source.
+        </div>
+      )}
+
       {profile.background && (
         <div className="mb-4">
-          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Professional Background</h4>
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2 flex items-center gap-2">Professional Background <ProvenanceBadge provenance={provenance.background} links={profile.grounding_urls} /></h4>
           <p className="text-sm text-slate-300 leading-relaxed font-light line-clamp-3">{profile.background}</p>
         </div>
       )}
 
+      {((profile.positions && profile.positions.length > 0) || (profile.education && profile.education.length > 0)) && (
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {profile.positions && profile.positions.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Experience</h4>
+              <ul className="space-y-1.5 border-l border-slate-800 pl-3">
+                {profile.positions.slice(0, 4).map((pos, i) => (
+                  <li key={i} className="text-xs">
+                    <span className="text-slate-200 font-medium">{pos.title}</span>
+                    {pos.company && <span className="text-slate-400"> · {pos.company}</span>}
+                    {pos.start && <span className="block text-[10px] text-slate-600">{pos.start} – {pos.end || 'present'}</span>}
+                  </li>
+                ))}
+                {profile.positions.length > 4 && <li className="text-[10px] text-slate-600 font-bold">+{profile.positions.length - 4} earlier</li>}
+              </ul>
+            </div>
+          )}
+          {profile.education && profile.education.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Education</h4>
+              <ul className="space-y-1.5">
+                {profile.education.map((edu, i) => (
+                  <li key={i} className="text-xs">
+                    <span className="text-slate-200 font-medium">{edu.school}</span>
+                    {(edu.degree || edu.field) && <span className="block text-[10px] text-slate-500">{[edu.degree, edu.field].filter(Boolean).join(', ')}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       {profile.skills && profile.skills.length > 0 && (
         <div className="mb-4">
-          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Expertise & Skills</h4>
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2 flex items-center gap-2">Expertise & Skills <ProvenanceBadge provenance={provenance.skills} links={profile.grounding_urls} /></h4>
           <div className="flex flex-wrap gap-2">
             {profile.skills.slice(0, 8).map((skill, i) => (
               <span key={i} className="bg-slate-800/80 text-slate-300 px-2.5 py-1 rounded-lg text-xs border border-slate-700">
@@ -107,6 +202,20 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
         </div>
       )}
 
+      {profile.custom_fields && Object.keys(profile.custom_fields).length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Event Details</h4>
+          <dl className="space-y-1">
+            {Object.entries(profile.custom_fields).map(([label, value]) => (
+              <div key={label} className="flex gap-2 text-xs">
+                <dt className="text-slate-500 font-bold shrink-0">{label}:</dt>
+                <dd className="text-slate-300 font-light line-clamp-2">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
       {profile.suggested_connections && profile.suggested_connections.length > 0 && (
         <div className="mb-4 bg-slate-950/40 border border-slate-800 rounded-xl p-4">
           <h4 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
@@ -146,10 +255,28 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onSuggestConnections
         {!profile.suggested_connections && onSuggestConnections && (
           <button 
             onClick={onSuggestConnections}
-            disabled={profile.enrichment_status === 'processing'}
+            disabled={isSuggesting}
             className="text-[10px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors disabled:opacity-50"
           >
-            {profile.enrichment_status === 'processing' ? 'Thinking...' : 'Suggest Connections'}
+            {isSuggesting ? 'Thinking...' : 'Suggest Connections'}
+          </button>
+        )}
+
+        {onFindSimilar && profile.embedding && (
+          <button 
+            onClick={onFindSimilar}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-400 transition-colors"
+          >
+            Similar People
+          </button>
+        )}
+
+        {onUpdate && (
+          <button 
+            onClick={() => setIsEditing(true)}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Edit
           </button>
         )}
 
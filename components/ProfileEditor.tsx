@@ -0,0 +1,117 @@
+
+import React, { useState } from 'react';
+import { EditableField, Profile } from '../types';
+import { EDITABLE_FIELDS, applyEdits, editText, fieldLabel, fieldText } from '../services/edits';
+
+interface ProfileEditorProps {
+  profile: Profile;
+  onSave: (profile: Profile) => void;
+  onClose: () => void;
+  // Renders in place (inside a card) instead of as a modal.
+  inline?: boolean;
+}
+
+/**
+ * Form for correcting any field by hand. Edited fields are locked by default so the next
+ * enrichment run keeps them; the lock can be toggled per field.
+ */
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onClose, inline }) => {
+  const [draft, setDraft] = useState<Record<EditableField, string>>(
+    () => Object.fromEntries(EDITABLE_FIELDS.map(({ field }) => [field, editText(profile, field)])) as Record<EditableField, string>
+  );
+  const [locks, setLocks] = useState<Set<EditableField>>(new Set(profile.locked_fields || []));
+  const [showHistory, setShowHistory] = useState(false);
+  const history = [...(profile.edit_history || [])].reverse();
+
+  const change = (field: EditableField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setLocks(prev => new Set(prev).add(field));
+  };
+
+  const toggleLock = (field: EditableField) => {
+    setLocks(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  const save = () => {
+    if (!draft.name.trim()) {
+      alert("Name cannot be empty.");
+      return;
+    }
+    onSave(applyEdits(profile, draft, Array.from(locks)));
+    onClose();
+  };
+
+  const form = (
+    <div className={inline ? '' : 'bg-[#0f172a] border border-slate-800 rounded-[2rem] p-8 w-full max-w-2xl shadow-2xl'}>
+      <h3 className={`${inline ? 'text-lg' : 'text-2xl'} font-black text-slate-50 tracking-tight mb-1`}>Edit {profile.name}</h3>
+      <p className="text-slate-400 font-light text-sm mb-6">Locked fields 🔒 are kept as you set them when the profile is researched again.</p>
+      <div className={`space-y-3 pr-2 ${inline ? '' : 'max-h-[55vh] overflow-y-auto custom-scrollbar'}`}>
+        {EDITABLE_FIELDS.map(({ field, label, multiline, placeholder }) => (
+          <div key={field} className="flex items-start gap-3">
+            <label className="w-36 shrink-0 pt-2.5 text-[10px] font-black text-slate-500 uppercase tracking-widest">{label}</label>
+            {multiline ? (
+              <textarea
+                value={draft[field]}
+                onChange={(e) => change(field, e.target.value)}
+                rows={3}
+                placeholder={placeholder}
+                className="flex-1 bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-100 focus:border-blue-500 outline-none resize-y"
+              />
+            ) : (
+              <input
+                type="text"
+                value={draft[field]}
+                onChange={(e) => change(field, e.target.value)}
+                placeholder={placeholder}
+                className="flex-1 bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-100 focus:border-blue-500 outline-none placeholder:text-slate-600"
+              />
+            )}
+            <button
+              onClick={() => toggleLock(field)}
+              className={`pt-2 text-sm transition-all ${locks.has(field) ? 'opacity-100' : 'opacity-30 hover:opacity-60'}`}
+              title={locks.has(field) ? 'Locked: enrichment will not change this field' : 'Unlocked: enrichment may overwrite this field'}
+            >{locks.has(field) ? '🔒' : '🔓'}</button>
+          </div>
+        ))}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-6 border-t border-slate-800 pt-4">
+          <button onClick={() => setShowHistory(!showHistory)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300">
+            Edit History ({history.length}) {showHistory ? '▴' : '▾'}
+          </button>
+          {showHistory && (
+            <ul className="mt-3 space-y-1.5 max-h-40 overflow-y-auto custom-scrollbar text-xs">
+              {history.map((edit, i) => (
+                <li key={i} className="flex gap-2 text-slate-400">
+                  <span className="text-slate-600 shrink-0">{new Date(edit.at).toLocaleString()}</span>
+                  <span className="font-bold text-slate-300 shrink-0">{fieldLabel(edit.field)}:</span>
+                  <span className="truncate"><span className="line-through opacity-60">{fieldText(edit.from) || '—'}</span> → {fieldText(edit.to) || '—'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 mt-8">
+        <button onClick={onClose} className="px-6 py-3 rounded-xl text-sm font-bold text-slate-400 hover:text-slate-200 transition-colors">Cancel</button>
+        <button onClick={save} className="bg-blue-600 text-white px-6 py-3 rounded-xl font-black hover:bg-blue-500 transition-all">Save</button>
+      </div>
+    </div>
+  );
+
+  if (inline) return form;
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[200] flex items-center justify-center px-4">
+      {form}
+    </div>
+  );
+};
+
+export default ProfileEditor;
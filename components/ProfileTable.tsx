@@ -0,0 +1,216 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Profile } from '../types';
+import { canonicalLinkedInUrl } from '../services/linkedin';
+import { SortKey, TableColumn, TableColumnId, toggleSort } from '../services/table';
+
+// Rows have a fixed height so the visible window can be computed from the scroll offset alone.
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 640;
+// Rows rendered above and below the window, so fast scrolling does not flash blank space.
+const OVERSCAN = 10;
+const SELECT_WIDTH = 44;
+const ACTIONS_WIDTH = 76;
+
+const STATUS_STYLES: Record<Profile['enrichment_status'], string> = {
+  success: 'bg-emerald-500/10 text-emerald-400',
+  fallback: 'bg-amber-500/10 text-amber-400',
+  error: 'bg-red-500/10 text-red-400',
+  processing: 'bg-blue-500/10 text-blue-400',
+  pending: 'bg-slate-800 text-slate-400'
+};
+
+interface ProfileTableProps {
+  profiles: Profile[];
+  columns: TableColumn[];
+  visibleColumns: TableColumnId[];
+  onColumnsChange: (columns: TableColumnId[]) => void;
+  sort: SortKey[];
+  onSortChange: (sort: SortKey[]) => void;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  onEdit?: (profile: Profile) => void;
+  onFindSimilar?: (profile: Profile) => void;
+}
+
+const ProfileTable: React.FC<ProfileTableProps> = ({
+  profiles, columns, visibleColumns, onColumnsChange, sort, onSortChange, selectedIds, onSelectionChange, onEdit, onFindSimilar
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  // Anchor for shift-click range selection.
+  const lastClicked = useRef<number | null>(null);
+
+  const shown = visibleColumns
+    .map(id => columns.find(c => c.id === id))
+    .filter((c): c is TableColumn => !!c);
+  const gridTemplateColumns = [`${SELECT_WIDTH}px`, ...shown.map(c => `${c.width}px`), `${ACTIONS_WIDTH}px`].join(' ');
+  const totalWidth = SELECT_WIDTH + ACTIONS_WIDTH + shown.reduce((sum, c) => sum + c.width, 0);
+
+  // A new search, filter or sort starts at the top; edits that keep the row order do not.
+  const order = useMemo(() => profiles.map(p => p.id).join('\n'), [profiles]);
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+    lastClicked.current = null;
+  }, [order]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(profiles.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = profiles.slice(first, last);
+
+  const allSelected = profiles.length > 0 && profiles.every(p => selectedIds.has(p.id));
+  const someSelected = !allSelected && profiles.some(p => selectedIds.has(p.id));
+
+  const toggleAll = () => {
+    const next = new Set(selectedIds);
+    profiles.forEach(p => allSelected ? next.delete(p.id) : next.add(p.id));
+    onSelectionChange(next);
+  };
+
+  const toggleRow = (index: number, shiftKey: boolean) => {
+    const next = new Set(selectedIds);
+    const target = !selectedIds.has(profiles[index].id);
+    const from = shiftKey && lastClicked.current !== null ? Math.min(lastClicked.current, index) : index;
+    const to = shiftKey && lastClicked.current !== null ? Math.max(lastClicked.current, index) : index;
+    for (let i = from; i <= to; i++) {
+      if (target) next.add(profiles[i].id);
+      else next.delete(profiles[i].id);
+    }
+    lastClicked.current = index;
+    onSelectionChange(next);
+  };
+
+  const toggleColumn = (id: TableColumnId) => {
+    if (visibleColumns.includes(id)) {
+      if (visibleColumns.length > 1) onColumnsChange(visibleColumns.filter(c => c !== id));
+    } else {
+      // Keep the chosen columns in the catalogue's order.
+      onColumnsChange(columns.map(c => c.id).filter(c => c === id || visibleColumns.includes(c)));
+    }
+  };
+
+  const renderCell = (p: Profile, column: TableColumn) => {
+    const text = column.text(p);
+    if (column.id === 'name') {
+      const url = canonicalLinkedInUrl(p.linkedin_url);
+      return (
+        <span className="flex items-center gap-1.5 min-w-0">
+          <span className="font-bold text-slate-200 truncate">{text}</span>
+          {url && <a href={url} target="_blank" rel="noopener noreferrer" className="text-[#0A66C2] text-[10px] font-black shrink-0" title="Open LinkedIn profile">in</a>}
+          {p.locked_fields && p.locked_fields.length > 0 && <span className="text-[10px] text-slate-500 shrink-0" title="Has locked fields">🔒</span>}
+        </span>
+      );
+    }
+    if (column.id === 'score') {
+      return text ? <span className="text-blue-400 font-black">{text}</span> : <span className="text-slate-700">—</span>;
+    }
+    if (column.id === 'status') {
+      return <span className={`text-[9px] px-2 py-0.5 rounded font-black uppercase tracking-widest ${STATUS_STYLES[p.enrichment_status]}`}>{text}</span>;
+    }
+    return text ? <span className="truncate" title={text}>{text}</span> : <span className="text-slate-700">—</span>;
+  };
+
+  return (
+    <div className="bg-[#0f172a]/60 border border-slate-800 rounded-3xl shadow-2xl">
+      <div className="flex items-center justify-between gap-4 px-5 py-3 border-b border-slate-800">
+        <p className="text-[10px] text-slate-500 font-bold">
+          {sort.length > 1 ? `Sorted by ${sort.length} columns · ` : ''}Shift-click headers to sort by several columns, rows to select a range.
+        </p>
+        <div className="relative">
+          <button
+            onClick={() => setShowColumnMenu(!showColumnMenu)}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] px-3 py-1.5 rounded-lg font-bold border border-slate-700 transition-all"
+          >Columns ({shown.length})</button>
+          {showColumnMenu && (
+            <div className="absolute right-0 mt-2 w-56 max-h-80 overflow-y-auto custom-scrollbar bg-[#0f172a] border border-slate-800 rounded-xl shadow-2xl z-[100] p-2">
+              {columns.map(c => (
+                <label key={c.id} className="flex items-center gap-2 px-2 py-1.5 text-xs text-slate-300 hover:bg-slate-800 rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={visibleColumns.includes(c.id)}
+                    onChange={() => toggleColumn(c.id)}
+                    className="w-3.5 h-3.5 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                  />
+                  <span className="truncate">{c.label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto custom-scrollbar rounded-b-3xl"
+        style={{ maxHeight: VIEWPORT_HEIGHT + ROW_HEIGHT }}
+      >
+        <div style={{ width: totalWidth, minWidth: '100%' }}>
+          <div
+            className="grid sticky top-0 z-10 bg-[#0f172a] border-b border-slate-800 text-[#475569] text-[10px] uppercase tracking-widest font-black"
+            style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+          >
+            <div className="flex items-center justify-center">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                ref={el => { if (el) el.indeterminate = someSelected; }}
+                onChange={toggleAll}
+                className="w-4 h-4 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                title={allSelected ? 'Deselect all results' : 'Select all results'}
+              />
+            </div>
+            {shown.map(c => {
+              const key = sort.find(k => k.column === c.id);
+              const position = sort.indexOf(key!) + 1;
+              return (
+                <button
+                  key={c.id}
+                  onClick={(e) => c.sortValue && onSortChange(toggleSort(sort, c, e.shiftKey))}
+                  disabled={!c.sortValue}
+                  className={`flex items-center gap-1 px-3 text-left uppercase tracking-widest ${c.sortValue ? 'hover:text-slate-300 cursor-pointer' : 'cursor-default'} ${key ? 'text-blue-400' : ''}`}
+                >
+                  <span className="truncate">{c.label}</span>
+                  {key && <span>{key.direction === 'asc' ? '▲' : '▼'}{sort.length > 1 && <sup>{position}</sup>}</span>}
+                </button>
+              );
+            })}
+            <div />
+          </div>
+          <div className="relative" style={{ height: profiles.length * ROW_HEIGHT }}>
+            {windowRows.map((p, i) => {
+              const index = first + i;
+              const selected = selectedIds.has(p.id);
+              return (
+                <div
+                  key={p.id}
+                  className={`grid absolute left-0 right-0 items-center text-sm text-slate-400 border-b border-slate-800/50 ${selected ? 'bg-blue-500/10' : 'hover:bg-slate-800/30'}`}
+                  style={{ gridTemplateColumns, top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  <div className="flex items-center justify-center">
+                    <input
+                      type="checkbox"
+                      checked={selected}
+                      onChange={(e) => toggleRow(index, (e.nativeEvent as MouseEvent).shiftKey)}
+                      className="w-4 h-4 rounded bg-slate-800 border-slate-700 text-blue-500 cursor-pointer"
+                    />
+                  </div>
+                  {shown.map(c => (
+                    <div key={c.id} className="px-3 min-w-0 flex items-center">{renderCell(p, c)}</div>
+                  ))}
+                  <div className="flex items-center justify-end gap-2 pr-4">
+                    {onEdit && <button onClick={() => onEdit(p)} className="text-xs opacity-60 hover:opacity-100" title="Edit fields">✏️</button>}
+                    {onFindSimilar && <button onClick={() => onFindSimilar(p)} className="text-xs opacity-60 hover:opacity-100" title="Find similar people">🧭</button>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileTable;
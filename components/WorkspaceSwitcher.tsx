@@ -0,0 +1,68 @@
+
+import React, { useState } from 'react';
+import { WorkspaceSummary } from '../types';
+
+interface WorkspaceSwitcherProps {
+  currentId: string;
+  currentName: string;
+  workspaces: WorkspaceSummary[];
+  onOpen: () => void;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ currentId, currentName, workspaces, onOpen, onSwitch, onCreate, onRename, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const rename = (id: string, name: string) => {
+    const next = prompt("Rename workspace", name);
+    if (next && next.trim()) onRename(id, next.trim());
+  };
+
+  const remove = (id: string, name: string) => {
+    if (confirm(`Delete workspace "${name}"? This cannot be undone.`)) onDelete(id);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { if (!isOpen) onOpen(); setIsOpen(!isOpen); }}
+        className="bg-slate-900/60 border border-slate-800 hover:border-slate-600 px-4 py-2 rounded-xl text-sm font-bold text-slate-300 flex items-center gap-2 transition-all"
+      >
+        <span>🗂️</span>
+        <span className="truncate max-w-[200px]">{currentName}</span>
+        <span className="text-slate-600 text-xs">▾</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-[#0f172a] border border-slate-800 rounded-xl shadow-2xl overflow-hidden z-[100]">
+          <div className="max-h-[360px] overflow-y-auto custom-scrollbar">
+            {workspaces.map(ws => (
+              <div
+                key={ws.id}
+                className={`flex items-center gap-2 px-4 py-3 border-b border-slate-800/50 ${ws.id === currentId ? 'bg-blue-500/10' : 'hover:bg-slate-800'}`}
+              >
+                <button
+                  onClick={() => { onSwitch(ws.id); setIsOpen(false); }}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <p className={`text-sm font-bold truncate ${ws.id === currentId ? 'text-blue-400' : 'text-slate-200'}`}>{ws.name}</p>
+                  <p className="text-[10px] text-slate-500">{ws.profileCount} profiles • {new Date(ws.updatedAt).toLocaleString()}</p>
+                </button>
+                <button onClick={() => rename(ws.id, ws.name)} className="text-[10px] text-slate-500 hover:text-blue-400 font-bold" title="Rename">✏️</button>
+                <button onClick={() => remove(ws.id, ws.name)} className="text-[10px] text-slate-500 hover:text-red-400 font-bold" title="Delete">🗑️</button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => { onCreate(); setIsOpen(false); }}
+            className="w-full text-left px-4 py-3 text-sm text-blue-400 font-bold hover:bg-slate-800 transition-colors"
+          >＋ New Workspace</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { identityKey, withCache } from './cache';
+import { PROMPT_VERSIONS } from './gemini';
+
+// IndexedDB is not available under Node; the cache store is an in-memory map instead.
+const entries = vi.hoisted(() => new Map<string, { key: string }>());
+
+vi.mock('./storage', () => {
+  const store = {
+    get: (key: string) => ({ result: entries.get(key) }),
+    put: (entry: { key: string }) => {
+      entries.set(entry.key, entry);
+      return { result: entry.key };
+    },
+    clear: () => {
+      entries.clear();
+      return { result: undefined };
+    }
+  };
+  return {
+    CACHE_STORE: 'cache',
+    withStore: async (_name: string, _mode: string, fn: (s: typeof store) => { result: unknown }) => fn(store).result
+  };
+});
+
+const ada = identityKey({ name: 'Ada Lovelace', company: 'Analytical Engines', linkedin_url: 'https://www.linkedin.com/in/ada/' });
+
+beforeEach(() => {
+  entries.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('identityKey', () => {
+  it('prefers the canonical LinkedIn profile over name and company', () => {
+    expect(ada).toBe('linkedin.com/in/ada');
+    expect(identityKey({ name: 'Ada Lovelace', company: 'Other', linkedin_url: 'linkedin.com/in/ADA?trk=x' })).toBe(ada);
+  });
+
+  it('falls back to normalized name and company', () => {
+    expect(identityKey({ name: '  Ada   Lovelace ', company: 'Analytical Engines' }))
+      .toBe(identityKey({ name: 'ada lovelace', company: 'ANALYTICAL ENGINES' }));
+  });
+});
+
+describe('withCache', () => {
+  it('hits for the same operation, identity and prompt version', async () => {
+    const compute = vi.fn(async () => 'research');
+    const first = await withCache('enrich', ada, compute);
+    const second = await withCache('enrich', ada, compute);
+
+    expect(first.hit).toBe(false);
+    expect(second).toEqual({ value: 'research', hit: true, createdAt: first.createdAt });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps operations and identities apart', async () => {
+    await withCache('enrich', ada, async () => 'research');
+    const other = identityKey({ name: 'Grace Hopper', company: 'Navy' });
+
+    expect((await withCache('identify_role', ada, async () => 'role')).hit).toBe(false);
+    expect((await withCache('enrich', other, async () => 'other')).hit).toBe(false);
+  });
+
+  it('misses once the prompt version is bumped', async () => {
+    await withCache('enrich', ada, async () => 'old prompt');
+    const version = PROMPT_VERSIONS.enrich;
+    PROMPT_VERSIONS.enrich = version + 1;
+    try {
+      const result = await withCache('enrich', ada, async () => 'new prompt');
+      expect(result).toMatchObject({ value: 'new prompt', hit: false });
+    } finally {
+      PROMPT_VERSIONS.enrich = version;
+    }
+    expect((await withCache('enrich', ada, async () => 'unused')).value).toBe('old prompt');
+  });
+
+  it('bypasses and replaces the entry on force refresh', async () => {
+    await withCache('enrich', ada, async () => 'stale');
+    const refreshed = await withCache('enrich', ada, async () => 'fresh', { forceRefresh: true });
+
+    expect(refreshed).toMatchObject({ value: 'fresh', hit: false });
+    expect((await withCache('enrich', ada, async () => 'unused')).value).toBe('fresh');
+  });
+
+  it('expires entries older than the TTL', async () => {
+    vi.useFakeTimers();
+    await withCache('enrich', ada, async () => 'research', { ttlDays: 1 });
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+    expect((await withCache('enrich', ada, async () => 'again', { ttlDays: 1 })).hit).toBe(false);
+  });
+
+  it('returns but does not store results rejected by shouldCache', async () => {
+    const empty = await withCache('enrich', ada, async () => '', { shouldCache: Boolean });
+    const next = await withCache('enrich', ada, async () => 'research', { shouldCache: Boolean });
+
+    expect(empty).toMatchObject({ value: '', hit: false });
+    expect(next.hit).toBe(false);
+  });
+
+  it('still computes when the cache store fails', async () => {
+    const storage = await import('./storage');
+    const spy = vi.spyOn(storage, 'withStore').mockRejectedValue(new Error('quota'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      expect(await withCache('enrich', ada, async () => 'research')).toMatchObject({ value: 'research', hit: false });
+      expect(error).toHaveBeenCalledTimes(2);
+    } finally {
+      spy.mockRestore();
+      error.mockRestore();
+    }
+  });
+});
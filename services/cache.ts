@@ -0,0 +1,79 @@
+
+import { Profile } from "../types";
+import { PROMPT_VERSIONS } from "./gemini";
+import { CACHE_STORE, withStore } from "./storage";
+import { linkedinSlug } from "./linkedin";
+
+export type CachedOperation = keyof typeof PROMPT_VERSIONS;
+
+const DEFAULT_TTL_DAYS = Number(process.env.CACHE_TTL_DAYS) || 30;
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  createdAt: number;
+}
+
+/**
+ * Identity of a person for caching: canonical LinkedIn profile when present,
+ * otherwise name + company.
+ */
+export function identityKey(p: Pick<Profile, 'name' | 'company' | 'linkedin_url'>): string {
+  // Same shape as keys written before slugs were canonicalized, so existing entries still hit.
+  const slug = linkedinSlug(p.linkedin_url);
+  if (slug) return `linkedin.com/in/${slug}`;
+  const norm = (v?: string) => (v || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `name:${norm(p.name)}|company:${norm(p.company)}`;
+}
+
+function cacheKey(operation: CachedOperation, identity: string): string {
+  return `${operation}:v${PROMPT_VERSIONS[operation]}:${identity}`;
+}
+
+export interface CacheOptions<T> {
+  forceRefresh?: boolean;
+  ttlDays?: number;
+  // Results that fail this check (e.g. empty answers) are returned but not stored.
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Returns a cached result for `operation` on `identity`, or computes and stores it.
+ * `createdAt` is when the returned value was computed, so callers can tell how old a hit is.
+ * Cache storage failures never fail the underlying call.
+ */
+export async function withCache<T>(
+  operation: CachedOperation,
+  identity: string,
+  compute: () => Promise<T>,
+  options: CacheOptions<T> = {}
+): Promise<{ value: T; hit: boolean; createdAt: number }> {
+  const key = cacheKey(operation, identity);
+  const ttlMs = (options.ttlDays ?? DEFAULT_TTL_DAYS) * 24 * 60 * 60 * 1000;
+
+  if (!options.forceRefresh) {
+    try {
+      const entry = await withStore<CacheEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+      if (entry && Date.now() - entry.createdAt < ttlMs) {
+        return { value: entry.value, hit: true, createdAt: entry.createdAt };
+      }
+    } catch (e) {
+      console.error("Cache read failed:", e);
+    }
+  }
+
+  const value = await compute();
+  const createdAt = Date.now();
+  if (!options.shouldCache || options.shouldCache(value)) {
+    try {
+      await withStore(CACHE_STORE, 'readwrite', store => store.put({ key, value, createdAt }));
+    } catch (e) {
+      console.error("Cache write failed:", e);
+    }
+  }
+  return { value, hit: false, createdAt };
+}
+
+export async function clearCache(): Promise<void> {
+  await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+}
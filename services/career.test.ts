@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { formatExperienceRange, normalizeEducation, normalizeExperienceRange, normalizePositions, parseExperienceRange } from './career';
+
+describe('parseExperienceRange', () => {
+  it.each([
+    ['8', { min: 8, max: 8 }],
+    ['12+', { min: 12 }],
+    ['5-7 years', { min: 5, max: 7 }],
+    ['7 – 5', { min: 5, max: 7 }],
+    ['over 10 years', { min: 10 }],
+    ['unknown', undefined],
+    [undefined, undefined]
+  ])('reads %j', (text, range) => {
+    expect(parseExperienceRange(text)).toEqual(range);
+  });
+
+  it('round-trips through formatExperienceRange', () => {
+    ['8', '12+', '5–7'].forEach(text => expect(formatExperienceRange(parseExperienceRange(text)!)).toBe(text));
+  });
+});
+
+describe('normalizeExperienceRange', () => {
+  it('drops negative, inverted and non-numeric bounds', () => {
+    expect(normalizeExperienceRange({ min: 3, max: 5 })).toEqual({ min: 3, max: 5 });
+    expect(normalizeExperienceRange({ min: 5, max: 3 })).toEqual({ min: 5 });
+    expect(normalizeExperienceRange({ min: -1 })).toBeUndefined();
+    expect(normalizeExperienceRange({ min: '3' })).toBeUndefined();
+    expect(normalizeExperienceRange(null)).toBeUndefined();
+  });
+});
+
+describe('normalizePositions', () => {
+  it('keeps usable entries and normalizes dates', () => {
+    expect(normalizePositions([
+      { title: ' CTO ', company: 'Acme', start: '2019-3', end: 'Present' },
+      { title: 'Engineer', company: 'Beta', start: '2015', end: '2019-01-15' },
+      { start: '2010' },
+      'junk'
+    ])).toEqual([
+      { title: 'CTO', company: 'Acme', start: '2019-03' },
+      { title: 'Engineer', company: 'Beta', start: '2015', end: '2019-01' }
+    ]);
+    expect(normalizePositions('CTO at Acme')).toEqual([]);
+  });
+});
+
+describe('normalizeEducation', () => {
+  it('requires a school and drops blank details', () => {
+    expect(normalizeEducation([{ school: 'MIT', degree: 'BS', field: '' }, { degree: 'MBA' }])).toEqual([{ school: 'MIT', degree: 'BS' }]);
+  });
+});
@@ -0,0 +1,80 @@
+
+import { Education, ExperienceRange, Position, Profile } from "../types";
+
+const DATE_RE = /^(\d{4})(?:-(\d{1,2}))?/;
+const CURRENT_RE = /^(present|current|now|today|ongoing)$/i;
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+function normalizeDate(value: unknown): string | undefined {
+  const match = text(value).match(DATE_RE);
+  if (!match) return undefined;
+  return match[2] ? `${match[1]}-${match[2].padStart(2, '0')}` : match[1];
+}
+
+/**
+ * Reads a free-text experience estimate: "8", "12+", "5-7", "over 10 years".
+ */
+export function parseExperienceRange(value?: string): ExperienceRange | undefined {
+  const v = (value || '').toLowerCase();
+  const between = v.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/);
+  if (between) {
+    const [a, b] = [Number(between[1]), Number(between[2])];
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  const single = v.match(/(\d+(?:\.\d+)?)/);
+  if (!single) return undefined;
+  const n = Number(single[1]);
+  return /\+|over|more than|at least/.test(v) ? { min: n } : { min: n, max: n };
+}
+
+export function formatExperienceRange(range: ExperienceRange): string {
+  if (range.max === undefined) return `${range.min}+`;
+  return range.max === range.min ? String(range.min) : `${range.min}–${range.max}`;
+}
+
+/**
+ * Cleans model or file output into a range; null-ish, negative or inverted bounds are dropped.
+ */
+export function normalizeExperienceRange(raw: unknown): ExperienceRange | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { min, max } = raw as Record<string, unknown>;
+  if (typeof min !== 'number' || !Number.isFinite(min) || min < 0) return undefined;
+  if (typeof max !== 'number' || !Number.isFinite(max) || max < min) return { min };
+  return { min, max };
+}
+
+export function normalizePositions(raw: unknown): Position[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(p => p && typeof p === 'object' && (text(p.title) || text(p.company)))
+    .map(p => {
+      const position: Position = { title: text(p.title), company: text(p.company) };
+      const start = normalizeDate(p.start);
+      const end = CURRENT_RE.test(text(p.end)) ? undefined : normalizeDate(p.end);
+      if (start) position.start = start;
+      if (end) position.end = end;
+      return position;
+    });
+}
+
+export function normalizeEducation(raw: unknown): Education[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(e => e && typeof e === 'object' && text(e.school))
+    .map(e => {
+      const education: Education = { school: text(e.school) };
+      if (text(e.degree)) education.degree = text(e.degree);
+      if (text(e.field)) education.field = text(e.field);
+      return education;
+    });
+}
+
+/**
+ * Positions and education as one line, for search and agent context.
+ */
+export function careerText(p: Pick<Profile, 'positions' | 'education'>): string {
+  const positions = (p.positions || []).map(x => [x.title, x.company].filter(Boolean).join(' @ '));
+  const education = (p.education || []).map(e => [e.degree, e.field, e.school].filter(Boolean).join(', '));
+  return [...positions, ...education].join('; ');
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectPlatform, getCleaner } from './cleaners';
+
+describe('cleaners', () => {
+  it('drops placeholders but keeps real values such as "0"', () => {
+    const generic = getCleaner('generic');
+    expect(generic.clean(' N/A ', 'company')).toBe('');
+    expect(generic.clean('0', 'company')).toBe('0');
+    expect(generic.clean('  Jane \n Doe ', 'name')).toBe('Jane Doe');
+  });
+
+  it('strips Luma tags from names and titles but keeps brackets elsewhere', () => {
+    const luma = getCleaner('luma');
+    expect(luma.clean('[Guest] Jane Doe', 'name')).toBe('Jane Doe');
+    expect(luma.clean('[Host] CTO', 'title')).toBe('CTO');
+    expect(luma.clean('[24]7.ai', 'company')).toBe('[24]7.ai');
+  });
+
+  it('strips Luma notifications from names only', () => {
+    const luma = getCleaner('luma');
+    expect(luma.clean('[Guest] Jane Doe | Acme has registered for Demo Day', 'name')).toBe('Jane Doe');
+    expect(luma.clean('Design | Research', 'title')).toBe('Design | Research');
+  });
+
+  it('clears Eventbrite and Meetup markers', () => {
+    expect(getCleaner('eventbrite').clean('Info Requested', 'title')).toBe('');
+    expect(getCleaner('meetup').clean('Jane Doe (Organizer)', 'name')).toBe('Jane Doe');
+  });
+
+  it('falls back to the generic cleaner', () => {
+    expect(getCleaner(undefined).id).toBe('generic');
+  });
+});
+
+describe('detectPlatform', () => {
+  it('needs at least two signature headers', () => {
+    expect(detectPlatform(['Name', 'Email', 'API ID', 'Approval Status']).id).toBe('luma');
+    expect(detectPlatform(['Name', 'Email', 'Ticket Type']).id).toBe('generic');
+  });
+});
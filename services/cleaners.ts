@@ -0,0 +1,114 @@
+
+import { PlatformId, StandardFieldType } from "../types";
+
+export interface SourceCleaner {
+  id: PlatformId;
+  label: string;
+  // Normalized headers that only this platform's exports tend to have.
+  signature: string[];
+  clean: (value: string, field: StandardFieldType) => string;
+}
+
+// Values that mean "no answer" on every platform. "0" is deliberately absent: it is a real company name.
+const PLACEHOLDERS = new Set(['n/a', 'na', 'none', '-', '.', 'not applicable', '#n/a', 'null', 'undefined']);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Baseline cleanup shared by every platform: trim, collapse whitespace, drop placeholders.
+ */
+function cleanGeneric(value: string): string {
+  const cleaned = (value || '').replace(/\s+/g, ' ').trim();
+  return PLACEHOLDERS.has(cleaned.toLowerCase()) ? '' : cleaned;
+}
+
+/**
+ * Luma pastes guest notifications into cells: "[Guest] Jane Doe | Acme has registered for ...".
+ */
+function cleanLuma(value: string, field: StandardFieldType): string {
+  let cleaned = (value || '').split(/\r?\n/)[0]
+    .replace(/has registered for.*/gi, '')
+    .replace(/registered for your event/gi, '');
+  // "[Guest]" tags only land in the name and title; elsewhere brackets are real, e.g. "[24]7.ai".
+  if (field === 'name' || field === 'title') cleaned = cleaned.replace(/\[.*?\]/g, '');
+  // Only names carry the "| suffix"; titles like "Design | Research" are legitimate.
+  if (field === 'name') cleaned = cleaned.replace(/\s\|.*/, '');
+  return cleanGeneric(cleaned);
+}
+
+/**
+ * Eventbrite fills unanswered checkout questions with "Info Requested" / "Info Not Requested".
+ */
+function cleanEventbrite(value: string): string {
+  const cleaned = cleanGeneric(value);
+  return /^info (not )?requested$/i.test(cleaned) ? '' : cleaned;
+}
+
+/**
+ * Meetup marks organizers in the name column, e.g. "Jane Doe (Organizer)".
+ */
+function cleanMeetup(value: string, field: StandardFieldType): string {
+  const cleaned = cleanGeneric(value);
+  return field === 'name' ? cleaned.replace(/\s*\((organizer|co-organizer|event host|host)\)$/i, '') : cleaned;
+}
+
+/**
+ * Hopin leaves emoji-decorated headlines and trailing separators from its profile editor.
+ */
+function cleanHopin(value: string): string {
+  return cleanGeneric((value || '').replace(/[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}]/gu, '')).replace(/[\s,;·|-]+$/, '');
+}
+
+export const CLEANERS: SourceCleaner[] = [
+  {
+    id: 'luma',
+    label: 'Luma',
+    signature: ['api id', 'approval status', 'checked in at', 'qr code url', 'ticket type id', 'phone number'],
+    clean: cleanLuma
+  },
+  {
+    id: 'eventbrite',
+    label: 'Eventbrite',
+    signature: ['order', 'order date', 'attendee', 'attendee status', 'ticket type', 'job title', 'order type'],
+    clean: cleanEventbrite
+  },
+  {
+    id: 'meetup',
+    label: 'Meetup',
+    signature: ['user id', 'event host', 'rsvped on', 'joined group on', 'url of member profile', 'answer to questions'],
+    clean: cleanMeetup
+  },
+  {
+    id: 'hopin',
+    label: 'Hopin',
+    signature: ['headline', 'magic link', 'registered at', 'ticket', 'twitter', 'website'],
+    clean: cleanHopin
+  },
+  {
+    id: 'generic',
+    label: 'Generic',
+    signature: [],
+    clean: cleanGeneric
+  }
+];
+
+export function getCleaner(id?: PlatformId): SourceCleaner {
+  return CLEANERS.find(c => c.id === id) || CLEANERS[CLEANERS.length - 1];
+}
+
+/**
+ * Picks the platform whose signature headers appear most in this file; at least two must match.
+ */
+export function detectPlatform(headers: string[]): SourceCleaner {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  let best = getCleaner('generic');
+  let bestHits = 1;
+  CLEANERS.forEach(cleaner => {
+    const hits = cleaner.signature.filter(h => fileHeaders.has(h)).length;
+    if (hits > bestHits) {
+      best = cleaner;
+      bestHits = hits;
+    }
+  });
+  return best;
+}
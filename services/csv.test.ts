@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, detectMappings, exportToCSV, finalizeProfiles, parseEnrichedCSV, parseRawCSV } from './csv';
+import { Profile } from '../types';
+
+const enriched: Profile = {
+  id: 'li-jane-doe',
+  name: 'Jane Doe',
+  title: 'VP Engineering',
+  company: 'Acme, Inc.',
+  region: 'Austin, TX',
+  linkedin_url: 'https://www.linkedin.com/in/jane-doe',
+  email: 'jane@acme.com',
+  years_of_experience: '12+',
+  experience_range: { min: 12 },
+  background: 'Built "Acme Cloud"\nfrom scratch.',
+  skills: ['Go', 'Kubernetes, Helm'],
+  positions: [{ title: 'VP Engineering', company: 'Acme, Inc.', start: '2019-03' }],
+  education: [{ school: 'MIT', degree: 'BS' }],
+  provenance: { skills: { confidence: 0.8, sources: [0], inferred: false } },
+  grounding_urls: [{ uri: 'https://acme.com/team', title: 'Team' }],
+  enrichment_status: 'success',
+  enrichment_source: 'gemini_web',
+  enriched_at: 1700000000000,
+  locked_fields: ['title'],
+  custom_fields: { 'Ticket Type': 'Speaker' },
+  selected: true
+};
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['name,title\nJane,CTO\n', ','],
+    ['name;title\nJane;CTO\n', ';'],
+    ['name\ttitle\nJane\tCTO\n', '\t'],
+    ['name|title\nJane|CTO\n', '|']
+  ])('detects %j', (text, delimiter) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('name;note\n"Doe, Jane";"a, b, c"\n"Roe, Rick";"d, e"\n')).toBe(';');
+  });
+});
+
+describe('parseRawCSV', () => {
+  it('handles quotes, escaped quotes, multiline cells and CRLF', () => {
+    const { headers, rows } = parseRawCSV('Name,Note\r\n"Doe, Jane","said ""hi""\nthen left"\r\nBob,\r\n');
+    expect(headers).toEqual(['Name', 'Note']);
+    expect(rows).toEqual([['Doe, Jane', 'said "hi"\nthen left'], ['Bob', '']]);
+  });
+
+  it('returns empty headers for empty input', () => {
+    expect(parseRawCSV('')).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe('detectMappings', () => {
+  it('maps columns from headers and sample values', () => {
+    const headers = ['Full Name', 'Job Title', 'Organisation', 'Profile', 'Contact'];
+    const rows = [
+      ['Jane Doe', 'CTO', 'Acme', 'linkedin.com/in/jane', 'jane@acme.com'],
+      ['Bob Roe', 'Designer', 'Beta', 'linkedin.com/in/bob', 'bob@beta.io']
+    ];
+    const mapped = detectMappings(headers, rows).map(m => m.mappedTo);
+    expect(mapped).toEqual(['name', 'title', 'company', 'linkedin_url', 'email']);
+  });
+
+  it('assigns each field to one column at most', () => {
+    const mapped = detectMappings(['Name', 'Name (again)'], [['Jane Doe', 'Jane Doe']]).map(m => m.mappedTo);
+    expect(mapped.filter(f => f === 'name')).toHaveLength(1);
+  });
+});
+
+describe('finalizeProfiles', () => {
+  it('derives ids from the person and keeps duplicates apart', () => {
+    const mappings = detectMappings(['Name', 'Company'], [['Jane Doe', 'Acme']]);
+    const profiles = finalizeProfiles(mappings, [['Jane Doe', 'Acme'], ['Jane Doe', 'Acme']]);
+    expect(profiles[0].id).toMatch(/^p-/);
+    expect(profiles[1].id).toBe(`${profiles[0].id}-2`);
+  });
+});
+
+describe('CSV export round-trip', () => {
+  it('restores every exported field', () => {
+    const { headers, rows } = parseRawCSV(exportToCSV([enriched]));
+    expect(parseEnrichedCSV(headers, rows)).toEqual([enriched]);
+  });
+
+  it('reads v1 exports without a schema marker', () => {
+    const { headers, rows } = parseRawCSV('Name,Title,Company,LinkedIn,Skills\nJane Doe,CTO,Acme,uk.linkedin.com/in/Jane-Doe,"Go, Rust"\n');
+    const [p] = parseEnrichedCSV(headers, rows);
+    expect(p).toMatchObject({
+      id: 'li-jane-doe',
+      linkedin_url: 'https://www.linkedin.com/in/jane-doe',
+      skills: ['Go', 'Rust'],
+      enrichment_status: 'success',
+      enrichment_source: 'gemini_web'
+    });
+  });
+
+  it('drops malformed JSON cells instead of failing', () => {
+    const { headers, rows } = parseRawCSV(exportToCSV([enriched]));
+    const skills = rows[0].indexOf('Skills');
+    const positions = rows[0].indexOf('Positions');
+    rows[1][skills] = '"python"';
+    rows[1][positions] = '42';
+    const [p] = parseEnrichedCSV(headers, rows);
+    expect(p.skills).toEqual(['python']);
+    expect(p.positions).toBeUndefined();
+  });
+});
@@ -1,11 +1,56 @@
 
-import { Profile, ColumnMapping, FieldType } from "../types";
+import { Profile, ColumnMapping, FieldType, StandardFieldType, CustomFieldType, MappingTemplate, PlatformId } from "../types";
 import * as XLSX from "xlsx";
+import { SourceCleaner, getCleaner } from "./cleaners";
+import { parseLinkedInUrl } from "./linkedin";
+import { profileId, withUniqueIds } from "./ids";
+import { serializeSession, validateRecord } from "./session";
+import { EXPORT_SCHEMA_VERSION, SCHEMA_MARKER, METADATA_SHEET, PROFILES_SHEET, exportHeaders, profileToRow, readSchemaVersion, migrateTable, rowsToRecords } from "./exportSchema";
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Picks the delimiter that splits the first lines (outside quotes) most consistently.
+ */
+export function detectDelimiter(text: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length && lines.length < 10; i++) {
+    const char = text[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (line.trim()) lines.push(line);
+      line = '';
+    } else if (!inQuotes) {
+      line += char;
+    }
+  }
+  if (line.trim()) lines.push(line);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(d => {
+    const counts = lines.map(l => l.split(d).length - 1);
+    const header = counts[0];
+    if (header === 0) return;
+    // Reward delimiters whose per-line count matches the header row.
+    const consistent = counts.filter(c => c === header).length / counts.length;
+    const score = consistent * 100 + header;
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  });
+  return best;
+}
 
 /**
  * Advanced CSV Parser that respects quoted multiline fields.
+ * Handles comma, semicolon, tab and pipe separated text; the delimiter is auto-detected when omitted.
  */
-export function parseRawCSV(text: string): { headers: string[], rows: string[][] } {
+export function parseRawCSV(text: string, delimiter: string = detectDelimiter(text)): { headers: string[], rows: string[][] } {
   const result: string[][] = [];
   let row: string[] = [];
   let currField = "";
@@ -27,7 +72,7 @@ export function parseRawCSV(text: string): { headers: string[], rows: string[][]
     } else {
       if (char === '"') {
         inQuotes = true;
-      } else if (char === ',') {
+      } else if (char === delimiter) {
         row.push(currField.trim());
         currField = "";
       } else if (char === '\n' || (char === '\r' && nextChar === '\n')) {
@@ -57,149 +102,288 @@ export function parseRawCSV(text: string): { headers: string[], rows: string[][]
   return { headers, rows };
 }
 
+/**
+ * Lists the sheets of an .xlsx/.xls workbook with their data row counts.
+ */
+export function readWorkbook(data: ArrayBuffer): { workbook: XLSX.WorkBook, sheets: Array<{ name: string, rowCount: number }> } {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheets = workbook.SheetNames.map(name => ({ name, rowCount: sheetToRows(workbook, name).rows.length }));
+  return { workbook, sheets };
+}
+
+/**
+ * Converts one worksheet to the same headers/rows shape produced by parseRawCSV.
+ */
+export function sheetToRows(workbook: XLSX.WorkBook, sheetName: string): { headers: string[], rows: string[][] } {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return { headers: [], rows: [] };
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+  const result = grid
+    .map(row => row.map(cell => String(cell ?? '').trim()))
+    .filter(row => row.some(cell => cell !== ''));
+  return { headers: result[0] || [], rows: result.slice(1) };
+}
+
+/**
+ * Restores profiles from an exported table, migrating older export versions first.
+ */
+function restoreProfiles(headers: string[], rows: string[][], version: number): Profile[] {
+  const table = migrateTable({ headers, rows }, version);
+  // Spreadsheet restores repair malformed cells silently; only JSON imports list the issues.
+  const profiles = rowsToRecords(table)
+    .map(record => validateRecord(record, () => {}))
+    .filter((p): p is Profile => p !== null);
+  return withUniqueIds(profiles);
+}
+
 /**
  * Reconstructs profiles from an enriched CSV export.
+ * Current exports start with a schema marker row; exports without one are read as v1.
  */
 export function parseEnrichedCSV(headers: string[], rows: string[][]): Profile[] {
-  const h = headers.map(header => header.toLowerCase().replace(/["']/g, '').trim());
-  
-  const nameIdx = h.indexOf('name');
-  const titleIdx = h.indexOf('title');
-  const companyIdx = h.indexOf('company');
-  const linkedinIdx = h.indexOf('linkedin');
-  const regionIdx = h.indexOf('region');
-  const expIdx = h.indexOf('years of experience');
-  const backgroundIdx = h.indexOf('background');
-  const respIdx = h.indexOf('responsibilities');
-  const achieveIdx = h.indexOf('achievements');
-  const skillsIdx = h.indexOf('skills');
-
-  return rows.map((row, i) => {
-    const skillsRaw = skillsIdx !== -1 ? row[skillsIdx] : '';
-    // Handle double-quoted string list of skills e.g. "Skill A, Skill B"
-    const skills = skillsRaw ? skillsRaw.split(',').map(s => s.trim().replace(/^"|"$/g, '')).filter(s => s) : [];
-
-    return {
-      id: `restored-${i}-${Date.now()}`,
-      name: (nameIdx !== -1 ? row[nameIdx] : 'Unknown').replace(/^"|"$/g, ''),
-      title: (titleIdx !== -1 ? row[titleIdx] : '').replace(/^"|"$/g, ''),
-      company: (companyIdx !== -1 ? row[companyIdx] : '').replace(/^"|"$/g, ''),
-      region: (regionIdx !== -1 ? row[regionIdx] : '').replace(/^"|"$/g, ''),
-      linkedin_url: (linkedinIdx !== -1 ? row[linkedinIdx] : '').replace(/^"|"$/g, ''),
-      years_of_experience: (expIdx !== -1 ? row[expIdx] : '').replace(/^"|"$/g, ''),
-      background: (backgroundIdx !== -1 ? row[backgroundIdx] : '').replace(/^"|"$/g, ''),
-      what_they_do: (respIdx !== -1 ? row[respIdx] : '').replace(/^"|"$/g, ''),
-      achievements: (achieveIdx !== -1 ? row[achieveIdx] : '').replace(/^"|"$/g, ''),
-      skills: skills,
-      enrichment_status: 'success',
-      enrichment_source: 'gemini_web',
-      selected: true
-    } as Profile;
+  const version = readSchemaVersion(headers);
+  if (version === null) return restoreProfiles(headers, rows, 1);
+  return restoreProfiles(rows[0] || [], rows.slice(1), version);
+}
+
+/**
+ * Reconstructs profiles from an XLSX export; the schema version lives on the metadata sheet.
+ */
+export function parseEnrichedWorkbook(data: ArrayBuffer): Profile[] {
+  const { workbook } = readWorkbook(data);
+  const meta = sheetToRows(workbook, METADATA_SHEET);
+  const versionRow = meta.rows.find(r => r[0] === 'schema_version');
+  const version = versionRow ? parseInt(versionRow[1], 10) || 1 : 1;
+  const sheetName = workbook.SheetNames.includes(PROFILES_SHEET)
+    ? PROFILES_SHEET
+    : workbook.SheetNames.find(n => n !== METADATA_SHEET) || '';
+  const { headers, rows } = sheetToRows(workbook, sheetName);
+  return restoreProfiles(headers, rows, version);
+}
+
+
+export function isCustomField(field: FieldType): field is CustomFieldType {
+  return field.startsWith('custom:');
+}
+
+export function customFieldLabel(field: CustomFieldType): string {
+  return field.slice('custom:'.length);
+}
+
+/**
+ * All custom field labels used across the given profiles, in first-seen order.
+ */
+export function customFieldKeys(profiles: Profile[]): string[] {
+  const keys = new Set<string>();
+  profiles.forEach(p => Object.keys(p.custom_fields || {}).forEach(k => keys.add(k)));
+  return Array.from(keys);
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Finds the saved template whose headers best match this file (at least 80% overlap).
+ */
+export function findTemplate(headers: string[], templates: MappingTemplate[]): MappingTemplate | null {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  let best: MappingTemplate | null = null;
+  let bestScore = 0.8;
+  templates.forEach(t => {
+    const templateHeaders = new Set(t.headers.map(normalizeHeader));
+    const shared = Array.from(templateHeaders).filter(h => fileHeaders.has(h)).length;
+    const score = shared / new Set([...fileHeaders, ...templateHeaders]).size;
+    if (score >= bestScore) {
+      best = t;
+      bestScore = score;
+    }
   });
+  return best;
 }
 
-export function detectMappings(headers: string[], rows: string[][]): ColumnMapping[] {
-  return headers.map((header, idx) => {
-    const h = header.toLowerCase();
-    let mappedTo: FieldType = 'ignore';
-    let autoDetected = true;
+type DetectableField = Exclude<StandardFieldType, 'ignore'>;
 
-    if (h.includes('name')) mappedTo = 'name';
-    else if (h.includes('title') || h.includes('role')) mappedTo = 'title';
-    else if (h.includes('company') || h.includes('work')) mappedTo = 'company';
-    else if (h.includes('linkedin') || h.includes('profile')) mappedTo = 'linkedin_url';
-    else if (h.includes('email')) mappedTo = 'email';
-    else autoDetected = false;
+const DETECTABLE_FIELDS: DetectableField[] = ['name', 'title', 'company', 'linkedin_url', 'email'];
 
-    const preview = rows.slice(0, 3).map(r => r[idx] || '').filter(v => v !== '');
+// Below this score a column is left unmapped rather than guessed.
+const MIN_MAPPING_CONFIDENCE = 0.35;
+
+const HEADER_HINTS: Record<DetectableField, Array<[RegExp, number]>> = {
+  name: [[/^(full )?name$/, 1], [/^(attendee|guest|participant|contact) name$/, 1], [/\bname\b/, 0.6]],
+  title: [[/^(job )?title$/, 1], [/\b(position|role|occupation|designation)\b/, 0.9], [/\btitle\b/, 0.7]],
+  company: [[/^(company|organi[sz]ation|employer)( name)?$/, 1], [/\b(company|employer|organi[sz]ation|org|workplace|affiliation)\b/, 0.8], [/\bwork\b/, 0.4]],
+  linkedin_url: [[/\blinkedin\b/, 1], [/\b(profile|url)\b/, 0.4]],
+  email: [[/\be ?mail\b/, 1]]
+};
+
+const EMAIL_RE = /^[^@\s]+@[^@\s]+\.[a-z]{2,}$/i;
+const LINKEDIN_RE = /linkedin\.com\/(in|pub)\//i;
+const URL_RE = /^(https?:\/\/|www\.)/i;
+const ORG_WORDS = /\b(inc|llc|ltd|limited|corp|corporation|gmbh|plc|co|company|group|labs?|technologies|technology|tech|systems|solutions|ventures|capital|partners|holdings|university|college|institute|school|bank|studio|agency|foundation|ai|io)\b\.?/i;
+const TITLE_WORDS = /\b(ceo|cto|cfo|coo|cmo|vp|svp|evp|head|chief|director|manager|lead|engineer|developer|designer|founder|co-?founder|partner|investor|analyst|consultant|scientist|researcher|student|intern|officer|president|principal|associate|architect|product|marketing|sales|recruiter|owner|advisor|professor|specialist|coordinator)\b/i;
 
-    return { header, mappedTo, preview, autoDetected };
+function headerScore(header: string, field: DetectableField): number {
+  const h = normalizeHeader(header);
+  let best = 0;
+  HEADER_HINTS[field].forEach(([re, weight]) => {
+    if (re.test(h)) best = Math.max(best, weight);
   });
+  return best;
 }
 
-function cleanLumaGarbage(val: string): string {
-  if (!val) return '';
-  const lines = val.split(/\r?\n/);
-  let cleaned = lines[0]
-    .replace(/\[.*?\]/g, '')
-    .replace(/has registered for.*/gi, '')
-    .replace(/registered for your event/gi, '')
-    .replace(/\|.*/g, '')
-    .trim();
+function looksLikePersonName(value: string): boolean {
+  const tokens = value.split(/\s+/);
+  if (tokens.length < 2 || tokens.length > 4 || value.length > 40) return false;
+  if (/[\d@/]/.test(value) || ORG_WORDS.test(value) || TITLE_WORDS.test(value)) return false;
+  return tokens.every(t => /^[\p{Lu}][\p{L}'.-]*$/u.test(t));
+}
 
-  const placeholders = ['n/a', 'na', 'none', '.', '0', 'not applicable', '#n/a'];
-  if (placeholders.includes(cleaned.toLowerCase())) return '';
-  
-  return cleaned;
+function orgLikeness(value: string): number {
+  if (/[@]/.test(value) || URL_RE.test(value) || value.length > 60) return 0;
+  if (ORG_WORDS.test(value)) return 1;
+  // Single capitalized words ("Stripe", "OpenAI") may be brands, but first names look the same.
+  return /^[\p{Lu}\d][\p{L}\d&.'-]*$/u.test(value) && !TITLE_WORDS.test(value) ? 0.5 : 0;
 }
 
-export function finalizeProfiles(mappings: ColumnMapping[], rows: string[][]): Profile[] {
-  return rows.map((row, rowIdx) => {
+function looksLikeTitle(value: string): boolean {
+  return value.length <= 80 && !/[@]/.test(value) && !URL_RE.test(value) && TITLE_WORDS.test(value);
+}
+
+/**
+ * Scores how well a column's values fit each field, from 0 to 1.
+ */
+function contentScores(values: string[]): Record<DetectableField, number> {
+  const scores: Record<DetectableField, number> = { name: 0, title: 0, company: 0, linkedin_url: 0, email: 0 };
+  if (values.length === 0) return scores;
+
+  const share = (test: (v: string) => boolean | number) => values.reduce((sum, v) => sum + Number(test(v)), 0) / values.length;
+  const uniqueness = new Set(values.map(v => v.toLowerCase())).size / values.length;
+
+  scores.email = share(v => EMAIL_RE.test(v));
+  scores.linkedin_url = share(v => LINKEDIN_RE.test(v));
+  // Names identify people, so they are rarely repeated; companies and titles often are.
+  scores.name = share(looksLikePersonName) * (0.6 + 0.4 * uniqueness);
+  scores.company = share(orgLikeness) * (uniqueness < 1 ? 1 : 0.8);
+  scores.title = share(looksLikeTitle);
+  return scores;
+}
+
+/**
+ * Suggests a mapping per column from its header and a sample of its values.
+ * Each standard field is assigned to at most one column, highest confidence first.
+ * Headers covered by `template` keep the template's mapping.
+ */
+export function detectMappings(headers: string[], rows: string[][], template?: MappingTemplate | null): ColumnMapping[] {
+  const fromTemplate = new Map((template?.mappings || []).map(m => [normalizeHeader(m.header), m.mappedTo]));
+  const sample = rows.slice(0, 50);
+
+  const mappings: ColumnMapping[] = headers.map((header, idx) => {
+    const preview = rows.slice(0, 3).map(r => r[idx] || '').filter(v => v !== '');
+    const templated = fromTemplate.get(normalizeHeader(header));
+    return templated
+      ? { header, mappedTo: templated, preview, autoDetected: true, confidence: 1 }
+      : { header, mappedTo: 'ignore', preview, autoDetected: false };
+  });
+
+  const taken = new Set<FieldType>(mappings.map(m => m.mappedTo));
+  const candidates: Array<{ idx: number; field: DetectableField; score: number }> = [];
+  headers.forEach((header, idx) => {
+    if (fromTemplate.has(normalizeHeader(header))) return;
+    const values = sample.map(r => (r[idx] || '').trim()).filter(Boolean);
+    const content = contentScores(values);
+    DETECTABLE_FIELDS.forEach(field => {
+      const fromHeader = headerScore(header, field);
+      // Either signal alone can carry a mapping; values weigh more than the header wording.
+      const score = 1 - (1 - 0.9 * content[field]) * (1 - 0.6 * fromHeader);
+      if (score >= MIN_MAPPING_CONFIDENCE) candidates.push({ idx, field, score });
+    });
+  });
+
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ idx, field, score }) => {
+      const m = mappings[idx];
+      if (m.autoDetected || taken.has(field)) return;
+      mappings[idx] = { ...m, mappedTo: field, autoDetected: true, confidence: Math.min(1, score) };
+      taken.add(field);
+    });
+
+  return mappings;
+}
+
+/**
+ * Sample values the source's cleaner would change, for a before/after preview.
+ */
+export function cleaningPreview(mappings: ColumnMapping[], rows: string[][], cleaner: SourceCleaner, limit = 5): Array<{ header: string, before: string, after: string }> {
+  const changes: Array<{ header: string, before: string, after: string }> = [];
+  for (const row of rows) {
+    mappings.forEach((m, colIdx) => {
+      if (m.mappedTo === 'ignore' || m.mappedTo === 'linkedin_url' || isCustomField(m.mappedTo)) return;
+      const before = row[colIdx] || '';
+      const after = cleaner.clean(before, m.mappedTo);
+      if (before.trim() && after !== before.trim()) changes.push({ header: m.header, before, after });
+    });
+    if (changes.length >= limit) break;
+  }
+  return changes.slice(0, limit);
+}
+
+export function finalizeProfiles(mappings: ColumnMapping[], rows: string[][], source?: { id: string, fileName: string, platform?: PlatformId }): Profile[] {
+  const cleaner = getCleaner(source?.platform);
+  return withUniqueIds(rows.map(row => {
     const profile: any = {
-      id: `profile-${rowIdx}-${Date.now()}`,
       enrichment_status: 'pending',
       enrichment_source: 'none',
-      selected: true
+      selected: true,
+      sources: source ? [source.fileName] : undefined
     };
 
     mappings.forEach((m, colIdx) => {
       if (m.mappedTo !== 'ignore') {
         const val = row[colIdx];
         if (m.mappedTo === 'name') {
-           profile.name = cleanLumaGarbage(val) || 'Unknown Attendee';
+           profile.name = cleaner.clean(val, 'name') || 'Unknown Attendee';
         } else if (m.mappedTo === 'linkedin_url') {
-           const match = val?.match(/https?:\/\/[^\s\]]+/);
-           profile.linkedin_url = match ? match[0] : undefined;
+           // Non-profile links are kept (canonicalized where possible) so they can be flagged.
+           profile.linkedin_url = parseLinkedInUrl(val)?.url;
+        } else if (isCustomField(m.mappedTo)) {
+           // Custom answers are kept verbatim; they are often free text.
+           const value = (val || '').trim();
+           if (value) profile.custom_fields = { ...profile.custom_fields, [customFieldLabel(m.mappedTo)]: value };
         } else {
-           profile[m.mappedTo] = cleanLumaGarbage(val);
+           profile[m.mappedTo] = cleaner.clean(val, m.mappedTo);
         }
       }
     });
 
+    profile.id = profileId(profile);
     return profile as Profile;
-  });
+  }));
 }
 
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
 export function exportToCSV(profiles: Profile[]): string {
-  const headers = ['Name', 'Title', 'Company', 'Region', 'LinkedIn', 'Years of Experience', 'Background', 'Responsibilities', 'Achievements', 'Skills'];
-  const rows = profiles.map(p => [
-    `"${p.name.replace(/"/g, '""')}"`,
-    `"${(p.title || '').replace(/"/g, '""')}"`,
-    `"${(p.company || '').replace(/"/g, '""')}"`,
-    `"${(p.region || '').replace(/"/g, '""')}"`,
-    `"${(p.linkedin_url || '').replace(/"/g, '""')}"`,
-    `"${(p.years_of_experience || '').replace(/"/g, '""')}"`,
-    `"${(p.background || '').replace(/"/g, '""')}"`,
-    `"${(p.what_they_do || '').replace(/"/g, '""')}"`,
-    `"${(p.achievements || '').replace(/"/g, '""')}"`,
-    `"${(p.skills || []).join(', ').replace(/"/g, '""')}"`
-  ].join(','));
-  return [headers.join(','), ...rows].join('\n');
+  const customKeys = customFieldKeys(profiles);
+  const rows = [exportHeaders(customKeys), ...profiles.map(p => profileToRow(p, customKeys))];
+  return [`${SCHEMA_MARKER}${EXPORT_SCHEMA_VERSION}`, ...rows.map(r => r.map(csvCell).join(','))].join('\n');
 }
 
 export function exportToJSON(profiles: Profile[]): string {
-  return JSON.stringify(profiles, null, 2);
+  return serializeSession(profiles);
 }
 
 export function downloadXLSX(profiles: Profile[], filename: string) {
-  const data = profiles.map(p => ({
-    Name: p.name,
-    Title: p.title,
-    Company: p.company,
-    Region: p.region,
-    LinkedIn: p.linkedin_url,
-    YearsOfExperience: p.years_of_experience,
-    Background: p.background,
-    Responsibilities: p.what_they_do,
-    Achievements: p.achievements,
-    Skills: (p.skills || []).join(', '),
-    Status: p.enrichment_status,
-    Source: p.enrichment_source
-  }));
-
-  const worksheet = XLSX.utils.json_to_sheet(data);
+  const customKeys = customFieldKeys(profiles);
+  const worksheet = XLSX.utils.aoa_to_sheet([exportHeaders(customKeys), ...profiles.map(p => profileToRow(p, customKeys))]);
+  const metadata = XLSX.utils.aoa_to_sheet([
+    ['key', 'value'],
+    ['schema_version', String(EXPORT_SCHEMA_VERSION)],
+    ['exported_at', new Date().toISOString()],
+    ['profiles', String(profiles.length)]
+  ]);
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, "Enriched Profiles");
+  XLSX.utils.book_append_sheet(workbook, worksheet, PROFILES_SHEET);
+  XLSX.utils.book_append_sheet(workbook, metadata, METADATA_SHEET);
   XLSX.writeFile(workbook, filename);
 }
 
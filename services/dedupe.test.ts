@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { applyMerges, defaultMergeChoices, findDuplicateClusters, namesMatch } from './dedupe';
+import { Profile } from '../types';
+
+const person = (id: string, fields: Partial<Profile>): Profile =>
+  ({ id, name: '', title: '', company: '', enrichment_status: 'pending', enrichment_source: 'none', ...fields });
+
+describe('namesMatch', () => {
+  it.each([
+    ['Jon Smith', 'Jonathan Smith', true],
+    ['Bob Smyth', 'Robert Smith', true],
+    ['José García', 'Jose Garcia', true],
+    ['Jane Smith', 'John Smith', false],
+    ['Jane', 'Jane Smith', false],
+    ['', '', false]
+  ])('%j ~ %j is %s', (a, b, expected) => {
+    expect(namesMatch(a, b)).toBe(expected);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('links the same LinkedIn profile written different ways', () => {
+    const clusters = findDuplicateClusters([
+      person('a', { name: 'Jane Doe', linkedin_url: 'https://uk.linkedin.com/in/Jane-Doe/' }),
+      person('b', { name: 'J. Doe', linkedin_url: 'linkedin.com/in/jane-doe?trk=x' }),
+      person('c', { name: 'Bob Roe' })
+    ]);
+    expect(clusters).toEqual([{ id: 'dup-a', profileIds: ['a', 'b'], reasons: ['Same LinkedIn profile'], confidence: 'high' }]);
+  });
+
+  it('does not throw on malformed percent-escapes in LinkedIn URLs', () => {
+    const profiles = [
+      person('a', { name: 'Ann Lee', linkedin_url: 'https://www.linkedin.com/in/ann%E0%A4%A' }),
+      person('b', { name: 'Ann Lee', linkedin_url: 'https://www.linkedin.com/in/ann%E0%A4%A' })
+    ];
+    expect(() => findDuplicateClusters(profiles)).not.toThrow();
+    expect(findDuplicateClusters(profiles)[0].profileIds).toEqual(['a', 'b']);
+  });
+
+  it('rates fuzzy name matches at the same company as medium confidence', () => {
+    const [cluster] = findDuplicateClusters([
+      person('a', { name: 'Jon Smith', company: 'Acme Inc.' }),
+      person('b', { name: 'Jonathan Smith', company: 'ACME' })
+    ]);
+    expect(cluster).toMatchObject({ profileIds: ['a', 'b'], confidence: 'medium', reasons: ['Similar name at same company'] });
+  });
+
+  it('matches emails regardless of case', () => {
+    const [cluster] = findDuplicateClusters([
+      person('a', { name: 'Jane Doe', email: 'Jane@Acme.com' }),
+      person('b', { name: 'Janey', email: 'jane@acme.com ' })
+    ]);
+    expect(cluster.reasons).toEqual(['Same email']);
+  });
+});
+
+describe('applyMerges', () => {
+  it('keeps the enriched member as the base and takes the longest values by default', () => {
+    const members = [
+      person('a', { name: 'Jon Smith', company: 'Acme', sources: ['luma.csv'] }),
+      person('b', { name: 'Jonathan Smith', company: 'Acme', title: 'CTO', enrichment_status: 'success', background: 'Researched', sources: ['speakers.csv'] })
+    ];
+    const profiles = [...members, person('c', { name: 'Bob Roe' })];
+    const [cluster] = findDuplicateClusters(profiles);
+    const merged = applyMerges(profiles, [{ cluster, choices: defaultMergeChoices(members) }]);
+    expect(merged.map(p => p.id)).toEqual(['b', 'c']);
+    expect(merged[0]).toMatchObject({
+      name: 'Jonathan Smith',
+      title: 'CTO',
+      background: 'Researched',
+      merged_ids: ['a'],
+      sources: ['luma.csv', 'speakers.csv']
+    });
+  });
+
+  it('keeps custom fields from every member, preferring the base on conflicts', () => {
+    const members = [
+      person('a', { name: 'Jon Smith', company: 'Acme', custom_fields: { 'Ticket Type': 'General', Dietary: 'Vegan' } }),
+      person('b', { name: 'Jonathan Smith', company: 'Acme', enrichment_status: 'success', custom_fields: { 'Ticket Type': 'Speaker' } })
+    ];
+    const [cluster] = findDuplicateClusters(members);
+    const [merged] = applyMerges(members, [{ cluster, choices: defaultMergeChoices(members) }]);
+    expect(merged.custom_fields).toEqual({ 'Ticket Type': 'Speaker', Dietary: 'Vegan' });
+  });
+});
@@ -0,0 +1,206 @@
+
+import { Profile } from "../types";
+import { linkedinSlug } from "./linkedin";
+
+export interface DuplicateCluster {
+  id: string;
+  profileIds: string[];
+  reasons: string[];
+  confidence: 'high' | 'medium';
+}
+
+// Fields compared and merged before enrichment.
+export const MERGE_FIELDS = ['name', 'title', 'company', 'region', 'linkedin_url', 'email'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+// Per-field choice of which cluster member's value to keep.
+export type MergeChoices = Partial<Record<MergeField, string>>;
+
+const NICKNAMES: Record<string, string> = {
+  jon: 'jonathan', john: 'jonathan', johnny: 'jonathan', bob: 'robert', rob: 'robert', bobby: 'robert',
+  bill: 'william', will: 'william', liz: 'elizabeth', beth: 'elizabeth', kate: 'katherine', katie: 'katherine',
+  mike: 'michael', mick: 'michael', jim: 'james', jimmy: 'james', dave: 'david', dan: 'daniel', danny: 'daniel',
+  chris: 'christopher', tom: 'thomas', tony: 'anthony', alex: 'alexander', sam: 'samuel', ben: 'benjamin',
+  matt: 'matthew', nick: 'nicholas', steve: 'steven', joe: 'joseph', ed: 'edward', andy: 'andrew', drew: 'andrew',
+  pat: 'patrick', rick: 'richard', dick: 'richard', rich: 'richard', greg: 'gregory', jen: 'jennifer', jenny: 'jennifer',
+  sue: 'susan', meg: 'margaret', peggy: 'margaret', abby: 'abigail', vicky: 'victoria', becky: 'rebecca'
+};
+
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|plc|sa|ag)\b\.?/g;
+
+function normalizeEmail(email?: string): string {
+  return (email || '').trim().toLowerCase();
+}
+
+function normalizeCompany(company?: string): string {
+  return (company || '').toLowerCase().replace(COMPANY_SUFFIXES, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function nameTokens(name?: string): string[] {
+  return (name || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+function firstNamesMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const ca = NICKNAMES[a] || a;
+  const cb = NICKNAMES[b] || b;
+  if (ca === cb) return true;
+  return Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a));
+}
+
+/**
+ * "Jon Smith" ~ "Jonathan Smith", "Bob Smyth" ~ "Robert Smith".
+ */
+export function namesMatch(a?: string, b?: string): boolean {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return false;
+  const lastA = ta[ta.length - 1];
+  const lastB = tb[tb.length - 1];
+  const lastOk = lastA === lastB || (Math.min(lastA.length, lastB.length) >= 5 && levenshtein(lastA, lastB) <= 1);
+  if (ta.length === 1 || tb.length === 1) return ta.join(' ') === tb.join(' ');
+  return lastOk && firstNamesMatch(ta[0], tb[0]);
+}
+
+/**
+ * Groups likely duplicates by LinkedIn slug, email, and fuzzy name + company.
+ */
+export function findDuplicateClusters(profiles: Profile[]): DuplicateCluster[] {
+  const parent = profiles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<string>>();
+  const strong = new Set<number>();
+
+  const link = (i: number, j: number, reason: string, isStrong: boolean) => {
+    const ri = find(i);
+    const rj = find(j);
+    const root = Math.min(ri, rj);
+    const other = Math.max(ri, rj);
+    parent[other] = root;
+    const merged = new Set([...(reasons.get(root) || []), ...(reasons.get(other) || []), reason]);
+    reasons.set(root, merged);
+    if (isStrong || strong.has(other)) strong.add(root);
+  };
+
+  // Exact keys are bucketed; fuzzy name matching is pairwise within a company bucket.
+  const byKey = (key: (p: Profile) => string, reason: string, isStrong: boolean) => {
+    const seen = new Map<string, number>();
+    profiles.forEach((p, i) => {
+      const k = key(p);
+      if (!k) return;
+      if (seen.has(k)) link(seen.get(k)!, i, reason, isStrong);
+      else seen.set(k, i);
+    });
+  };
+
+  byKey(p => linkedinSlug(p.linkedin_url), 'Same LinkedIn profile', true);
+  byKey(p => normalizeEmail(p.email), 'Same email', true);
+
+  const byCompany = new Map<string, number[]>();
+  profiles.forEach((p, i) => {
+    const c = normalizeCompany(p.company);
+    byCompany.set(c, [...(byCompany.get(c) || []), i]);
+  });
+  byCompany.forEach((indices, company) => {
+    for (let a = 0; a < indices.length; a++) {
+      for (let b = a + 1; b < indices.length; b++) {
+        const pa = profiles[indices[a]];
+        const pb = profiles[indices[b]];
+        if (!namesMatch(pa.name, pb.name)) continue;
+        // Without a company the name alone is weak evidence.
+        link(indices[a], indices[b], company ? 'Similar name at same company' : 'Similar name', false);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  profiles.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      id: `dup-${profiles[root].id}`,
+      profileIds: members.map(i => profiles[i].id),
+      reasons: Array.from(reasons.get(root) || []),
+      confidence: strong.has(root) ? 'high' as const : 'medium' as const
+    }));
+}
+
+/**
+ * Default pick per field: the longest non-empty value among cluster members.
+ */
+export function defaultMergeChoices(members: Profile[]): MergeChoices {
+  const choices: MergeChoices = {};
+  MERGE_FIELDS.forEach(field => {
+    let best: Profile | undefined;
+    members.forEach(m => {
+      const value = (m[field] || '').trim();
+      if (value && (!best || value.length > (best[field] || '').length)) best = m;
+    });
+    if (best) choices[field] = best.id;
+  });
+  return choices;
+}
+
+/**
+ * Merges cluster members into one profile, taking each field from the chosen member.
+ * An already-enriched member is used as the base so its research is kept.
+ * Custom fields from every member are kept; the base's value wins when a label repeats.
+ */
+export function mergeProfiles(members: Profile[], choices: MergeChoices): Profile {
+  const base = members.find(m => m.enrichment_status !== 'pending') || members[0];
+  const sources = Array.from(new Set(members.flatMap(m => m.sources || [])));
+  const customFields = Object.assign({}, ...members.filter(m => m !== base).map(m => m.custom_fields), base.custom_fields);
+  const merged: Profile = {
+    ...base,
+    merged_ids: members.filter(m => m !== base).map(m => m.id),
+    sources: sources.length > 0 ? sources : undefined,
+    custom_fields: Object.keys(customFields).length > 0 ? customFields : undefined
+  };
+  MERGE_FIELDS.forEach(field => {
+    const source = members.find(m => m.id === choices[field]);
+    if (source) merged[field] = source[field] as string;
+  });
+  return merged;
+}
+
+/**
+ * Replaces each accepted cluster with its merged profile, keeping list order.
+ */
+export function applyMerges(profiles: Profile[], merges: Array<{ cluster: DuplicateCluster; choices: MergeChoices }>): Profile[] {
+  const replacements = new Map<string, Profile>();
+  const dropped = new Set<string>();
+  merges.forEach(({ cluster, choices }) => {
+    const members = cluster.profileIds.map(id => profiles.find(p => p.id === id)).filter((p): p is Profile => Boolean(p));
+    if (members.length < 2) return;
+    // The merged record takes the place of the first member in the list.
+    replacements.set(members[0].id, mergeProfiles(members, choices));
+    members.slice(1).forEach(m => dropped.add(m.id));
+  });
+  return profiles
+    .filter(p => !dropped.has(p.id))
+    .map(p => replacements.get(p.id) || p);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { applyEdits, editText, respectLocks } from './edits';
+import { Profile } from '../types';
+
+const profile = (fields: Partial<Profile> = {}): Profile => ({
+  id: 'p-1',
+  name: 'Jane Doe',
+  title: 'Engineer',
+  company: 'Acme',
+  enrichment_status: 'success',
+  enrichment_source: 'gemini_web',
+  ...fields
+});
+
+describe('applyEdits', () => {
+  it('records each changed field in the history', () => {
+    const p = profile({ skills: ['Go'] });
+    const edited = applyEdits(p, { title: 'CTO', skills: 'Go, Rust', company: 'Acme' }, [], 1000);
+
+    expect(edited).toMatchObject({ title: 'CTO', skills: ['Go', 'Rust'] });
+    expect(edited.edit_history).toEqual([
+      { field: 'title', from: 'Engineer', to: 'CTO', at: 1000 },
+      { field: 'skills', from: ['Go'], to: ['Go', 'Rust'], at: 1000 }
+    ]);
+  });
+
+  it('appends to earlier history and skips edits that change nothing', () => {
+    const first = applyEdits(profile(), { region: 'Austin' }, [], 1000);
+    const second = applyEdits(first, { region: ' Austin ', email: 'jane@acme.com' }, [], 2000);
+
+    expect(second.edit_history?.map(h => [h.field, h.at])).toEqual([['region', 1000], ['email', 2000]]);
+  });
+
+  it('keeps a name and rejects blanking it', () => {
+    const edited = applyEdits(profile(), { name: '  ' }, []);
+    expect(edited.name).toBe('Jane Doe');
+    expect(edited.edit_history).toBeUndefined();
+  });
+
+  it('drops the provenance of edited fields only', () => {
+    const p = profile({
+      region: 'Remote',
+      background: 'Researched',
+      provenance: {
+        region: { confidence: 0.4, sources: [], inferred: true },
+        background: { confidence: 0.9, sources: [0], inferred: false }
+      }
+    });
+    const edited = applyEdits(p, { region: 'Austin' }, []);
+    expect(edited.provenance).toEqual({ background: p.provenance!.background });
+  });
+
+  it('sets and clears locks in field order', () => {
+    const locked = applyEdits(profile(), {}, ['skills', 'title']);
+    expect(locked.locked_fields).toEqual(['title', 'skills']);
+    expect(applyEdits(locked, {}, []).locked_fields).toBeUndefined();
+  });
+
+  it('confirms an ambiguous identity once the role is typed in', () => {
+    const p = profile({ title: '', company: '', identity_status: 'needs_review', identity_candidates: [] });
+    const edited = applyEdits(p, { title: 'CTO', company: 'Acme' }, []);
+    expect(edited.identity_status).toBe('confirmed');
+    expect(edited.identity_candidates).toBeUndefined();
+  });
+
+  it('reads structured fields back from their edit text', () => {
+    const edited = applyEdits(profile(), {
+      positions: 'CTO | Acme | 2019-03\nEngineer | Beta | 2015 | 2019',
+      custom_fields: 'Ticket Type: Speaker\nnot a field'
+    }, []);
+    expect(edited.custom_fields).toEqual({ 'Ticket Type': 'Speaker' });
+    expect(editText(edited, 'positions')).toBe('CTO | Acme | 2019-03\nEngineer | Beta | 2015 | 2019');
+  });
+});
+
+describe('respectLocks', () => {
+  const original = applyEdits(profile({
+    background: 'Wrong person',
+    provenance: { background: { confidence: 0.9, sources: [0], inferred: false } }
+  }), { title: 'CTO', background: 'Hand written' }, ['title', 'background'], 1000);
+
+  it('keeps locked fields through re-enrichment', () => {
+    const enriched = respectLocks(original, {
+      ...original,
+      title: 'Staff Engineer',
+      background: 'Fresh research',
+      region: 'Austin',
+      provenance: {
+        background: { confidence: 0.8, sources: [1], inferred: false },
+        region: { confidence: 0.7, sources: [1], inferred: false }
+      },
+      edit_history: undefined
+    });
+
+    expect(enriched).toMatchObject({ title: 'CTO', background: 'Hand written', region: 'Austin' });
+    expect(enriched.provenance).toEqual({ region: { confidence: 0.7, sources: [1], inferred: false } });
+    expect(enriched.locked_fields).toEqual(['title', 'background']);
+    expect(enriched.edit_history).toEqual(original.edit_history);
+  });
+
+  it('keeps a locked role when an identity candidate is chosen', () => {
+    const chosen = respectLocks(original, { ...original, title: 'VP Sales', company: 'Beta', identity_status: 'confirmed' as const });
+    expect(chosen).toMatchObject({ title: 'CTO', company: 'Beta', identity_status: 'confirmed' });
+  });
+
+  it('keeps locked fields over a cached result', () => {
+    const cached = { ...original, background: 'Cached research', enriched_at: 1, cached: true };
+    const refreshed = respectLocks(original, cached);
+    expect(refreshed).toMatchObject({ background: 'Hand written', enriched_at: 1, cached: true });
+  });
+
+  it('keeps the range derived from a locked experience estimate', () => {
+    const locked = applyEdits(profile(), { years_of_experience: '5-8' }, ['years_of_experience']);
+    const updated = respectLocks(locked, { ...locked, years_of_experience: '12+', experience_range: { min: 12 } });
+    expect(updated).toMatchObject({ years_of_experience: '5-8', experience_range: locked.experience_range });
+  });
+
+  it('returns the update untouched when nothing is locked', () => {
+    const updated = profile({ title: 'CTO' });
+    expect(respectLocks(profile(), updated)).toBe(updated);
+  });
+});
@@ -0,0 +1,169 @@
+import { EditableField, Profile, ProfileEdit, ProvenanceField } from "../types";
+import { canonicalLinkedInUrl } from "./linkedin";
+import { PROVENANCE_FIELDS } from "./provenance";
+import { formatExperienceRange, normalizeEducation, normalizePositions, parseExperienceRange } from "./career";
+
+export type FieldValue = string | string[] | undefined;
+
+export const EDITABLE_FIELDS: Array<{ field: EditableField, label: string, multiline?: boolean, placeholder?: string }> = [
+  { field: 'name', label: 'Name' },
+  { field: 'title', label: 'Title' },
+  { field: 'company', label: 'Company' },
+  { field: 'region', label: 'Region' },
+  { field: 'linkedin_url', label: 'LinkedIn' },
+  { field: 'email', label: 'Email' },
+  { field: 'years_of_experience', label: 'Years of Experience' },
+  { field: 'experience_range', label: 'Experience Range', placeholder: '5–8 or 12+' },
+  { field: 'background', label: 'Background', multiline: true },
+  { field: 'what_they_do', label: 'Responsibilities', multiline: true },
+  { field: 'achievements', label: 'Achievements', multiline: true },
+  { field: 'skills', label: 'Skills', placeholder: 'Comma-separated' },
+  { field: 'positions', label: 'Positions', multiline: true, placeholder: 'One per line: Title | Company | 2019-03 | 2022' },
+  { field: 'education', label: 'Education', multiline: true, placeholder: 'One per line: School | Degree | Field' },
+  { field: 'custom_fields', label: 'Event Details', multiline: true, placeholder: 'One per line: Label: value' }
+];
+
+const FIELD_NAMES = new Set<string>(EDITABLE_FIELDS.map(f => f.field));
+
+export const isEditableField = (field: unknown): field is EditableField => typeof field === 'string' && FIELD_NAMES.has(field);
+
+export const fieldLabel = (field: EditableField) => EDITABLE_FIELDS.find(f => f.field === field)?.label || field;
+
+export const isLocked = (p: Profile, field: EditableField) => Boolean(p.locked_fields?.includes(field));
+
+/**
+ * Text shown for an edit history value; skills are a comma-separated list.
+ */
+export function fieldText(value: FieldValue): string {
+  return Array.isArray(value) ? value.join(', ') : value || '';
+}
+
+const joinParts = (parts: Array<string | undefined>) => parts.map(s => s || '').join(' | ').replace(/( \| )+$/, '');
+const splitParts = (line: string) => line.split('|').map(s => s.trim());
+const lines = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+
+/**
+ * A field as the text typed into its input. Structured fields are written one entry per line.
+ */
+export function editText(p: Profile, field: EditableField): string {
+  switch (field) {
+    case 'experience_range':
+      return p.experience_range ? formatExperienceRange(p.experience_range) : '';
+    case 'positions':
+      return (p.positions || []).map(x => joinParts([x.title, x.company, x.start, x.end])).join('\n');
+    case 'education':
+      return (p.education || []).map(e => joinParts([e.school, e.degree, e.field])).join('\n');
+    case 'custom_fields':
+      return Object.entries(p.custom_fields || {}).map(([label, value]) => `${label}: ${value}`).join('\n');
+    default:
+      return fieldText(p[field]);
+  }
+}
+
+/**
+ * Reads typed text back into the profile fields it sets; null when the value is not allowed.
+ */
+function parseField(field: EditableField, text: string): Partial<Profile> | null {
+  const value = text.trim() || undefined;
+  switch (field) {
+    // A profile always keeps a name; title and company are required strings.
+    case 'name':
+      return value ? { name: value } : null;
+    case 'title':
+    case 'company':
+      return { [field]: value || '' };
+    case 'linkedin_url':
+      return { linkedin_url: canonicalLinkedInUrl(value) || value };
+    case 'skills': {
+      const skills = text.split(',').map(s => s.trim()).filter(Boolean);
+      return { skills: skills.length > 0 ? skills : undefined };
+    }
+    // The numeric range follows the text estimate so filters and sorting see the correction.
+    case 'years_of_experience':
+      return { years_of_experience: value, experience_range: parseExperienceRange(value) };
+    case 'experience_range':
+      return { experience_range: parseExperienceRange(value) };
+    case 'positions': {
+      const positions = normalizePositions(lines(text).map(splitParts).map(([title, company, start, end]) => ({ title, company, start, end })));
+      return { positions: positions.length > 0 ? positions : undefined };
+    }
+    case 'education': {
+      const education = normalizeEducation(lines(text).map(splitParts).map(([school, degree, field]) => ({ school, degree, field })));
+      return { education: education.length > 0 ? education : undefined };
+    }
+    case 'custom_fields': {
+      const entries = lines(text)
+        .filter(line => line.includes(':'))
+        .map(line => [line.slice(0, line.indexOf(':')).trim(), line.slice(line.indexOf(':') + 1).trim()])
+        .filter(([label, v]) => label && v);
+      return { custom_fields: entries.length > 0 ? Object.fromEntries(entries) : undefined };
+    }
+    default:
+      return { [field]: value };
+  }
+}
+
+// Skills keep their list in the history; every other field its text.
+const historyValue = (p: Profile, field: EditableField): FieldValue =>
+  field === 'skills' ? p.skills : editText(p, field) || undefined;
+
+/**
+ * Applies hand edits (as typed text) and the chosen locks, recording each changed field in the history.
+ * Edited fields lose their enrichment provenance, since a person now vouches for them.
+ */
+export function applyEdits(p: Profile, changes: Partial<Record<EditableField, string>>, locks: EditableField[], at = Date.now()): Profile {
+  const updates: Partial<Profile> = {};
+  const history: ProfileEdit[] = [];
+  EDITABLE_FIELDS.forEach(({ field }) => {
+    const text = changes[field];
+    if (text === undefined || text === editText(p, field)) return;
+    const patch = parseField(field, text);
+    if (!patch) return;
+    const edited: Profile = { ...p, ...patch };
+    if (editText(edited, field) === editText(p, field)) return;
+    Object.assign(updates, patch);
+    history.push({ field, from: historyValue(p, field), to: historyValue(edited, field), at });
+  });
+
+  const next: Profile = { ...p, ...updates };
+  const edited = new Set(history.map(h => h.field));
+  if (p.provenance && PROVENANCE_FIELDS.some(f => edited.has(f))) {
+    next.provenance = Object.fromEntries(Object.entries(p.provenance).filter(([f]) => !edited.has(f as ProvenanceField)));
+  }
+  // Typing in the role settles an ambiguous identity.
+  if (p.identity_status === 'needs_review' && next.title && next.company && (edited.has('title') || edited.has('company'))) {
+    next.identity_status = 'confirmed';
+    delete next.identity_candidates;
+  }
+
+  const locked = EDITABLE_FIELDS.map(f => f.field).filter(f => locks.includes(f));
+  if (locked.length > 0) next.locked_fields = locked;
+  else delete next.locked_fields;
+  if (history.length > 0) next.edit_history = [...(p.edit_history || []), ...history];
+  return next;
+}
+
+function pickFields(p: Profile, fields: EditableField[]): Partial<Profile> {
+  const values: Partial<Profile> = {};
+  fields.forEach(<K extends EditableField>(field: K) => { values[field] = p[field]; });
+  return values;
+}
+
+/**
+ * Puts locked fields (and their provenance) back from `original` after an automated update.
+ */
+export function respectLocks<T extends Profile>(original: Profile, updated: T): T {
+  const locked = original.locked_fields || [];
+  if (locked.length === 0) return updated;
+  // A locked text estimate keeps the range derived from it.
+  const kept = pickFields(original, locked.includes('years_of_experience') ? [...locked, 'experience_range'] : locked);
+  const next: T = { ...updated, ...kept, locked_fields: locked, edit_history: original.edit_history };
+  const provenance: Profile['provenance'] = { ...(updated.provenance || {}) };
+  PROVENANCE_FIELDS.filter(field => locked.includes(field)).forEach(field => {
+    const keptProvenance = original.provenance?.[field];
+    if (keptProvenance) provenance[field] = keptProvenance;
+    else delete provenance[field];
+  });
+  if (updated.provenance || original.provenance) next.provenance = provenance;
+  return next;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyEmbeddings, cosineSimilarity, embedProfiles, nearestProfiles, nearestToQuery } from './embeddings';
+import { createLocalEmbedder } from './providers/localEmbeddings';
+import { Profile } from '../types';
+
+const person = (id: string, fields: Partial<Profile>): Profile =>
+  ({ id, name: '', title: '', company: '', enrichment_status: 'success', enrichment_source: 'gemini_web', ...fields });
+
+const embedder = createLocalEmbedder();
+const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+
+describe('local embedder', () => {
+  it('is deterministic', async () => {
+    const [a] = await embedder.embed(['Climate tech founder']);
+    const [b] = await createLocalEmbedder().embed(['Climate tech founder']);
+    expect(a).toEqual(b);
+  });
+
+  it('returns unit vectors, and zeros for text without words', async () => {
+    const [text, empty] = await embedder.embed(['Software engineer building data platforms', '  - ']);
+    expect(text).toHaveLength(512);
+    expect(norm(text)).toBeCloseTo(1);
+    expect(empty.every(v => v === 0)).toBe(true);
+  });
+
+  it('places shared vocabulary closer than unrelated text', async () => {
+    const [query, near, far] = await embedder.embed([
+      'machine learning engineer',
+      'engineering lead for machine learning platforms',
+      'pastry chef and restaurant owner'
+    ]);
+    expect(cosineSimilarity(query, near)).toBeGreaterThan(cosineSimilarity(query, far));
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it.each([
+    [[1, 0], [2, 0], 1],
+    [[1, 0], [0, 3], 0],
+    [[1, 1], [-1, -1], -1],
+    [[0, 0], [1, 0], 0],
+    [[1], [1, 0], 0]
+  ])('%j · %j = %d', (a, b, expected) => {
+    expect(cosineSimilarity(a, b)).toBeCloseTo(expected);
+  });
+});
+
+describe('nearest profiles', () => {
+  const profiles = [
+    person('ml', { title: 'Machine Learning Engineer', skills: ['PyTorch'] }),
+    person('chef', { title: 'Pastry Chef', background: 'Runs a bakery.' }),
+    person('data', { title: 'Data Engineer', background: 'Builds machine learning pipelines.' })
+  ];
+
+  it('ranks profiles by cosine similarity to the query', async () => {
+    const embedded = applyEmbeddings(profiles, await embedProfiles(profiles, embedder));
+    const ranked = await nearestToQuery('machine learning engineer', embedded, 3, embedder);
+    expect(ranked.map(r => r.profile.id)).toEqual(['ml', 'data', 'chef']);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+
+  it('only compares vectors from the same model', async () => {
+    const embedded = applyEmbeddings(profiles, await embedProfiles(profiles, embedder));
+    const other = { ...embedded[1], embedding: { ...embedded[1].embedding!, model: 'other' } };
+    const ranked = nearestProfiles(embedded[0].embedding!, [embedded[0], other, embedded[2]], 5);
+    expect(ranked.map(r => r.profile.id)).toEqual(['ml', 'data']);
+  });
+});
+
+describe('embedProfiles', () => {
+  it('embeds only enriched profiles whose text or model changed', async () => {
+    const spy = { ...embedder, embed: vi.fn(embedder.embed) };
+    const profiles = [person('a', { title: 'Founder' }), person('b', { title: 'Engineer', enrichment_status: 'pending' })];
+    const first = applyEmbeddings(profiles, await embedProfiles(profiles, spy));
+
+    expect(first[0].embedding?.model).toBe(embedder.model);
+    expect(first[1].embedding).toBeUndefined();
+    expect((await embedProfiles(first, spy)).size).toBe(0);
+
+    const edited = [{ ...first[0], title: 'CEO' }, first[1]];
+    expect(Array.from((await embedProfiles(edited, spy)).keys())).toEqual(['a']);
+    expect(spy.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips vectors for profiles edited while they were computed', async () => {
+    const profiles = [person('a', { title: 'Founder' })];
+    const embeddings = await embedProfiles(profiles, embedder);
+    expect(applyEmbeddings([{ ...profiles[0], title: 'CEO' }], embeddings)[0].embedding).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+
+import { Profile, ProfileEmbedding } from "../types";
+import { careerText } from "./career";
+import { fnv1a } from "./ids";
+import { createGeminiEmbedder } from "./providers/gemini";
+import { createOpenAIEmbedder } from "./providers/openai";
+import { createLocalEmbedder } from "./providers/localEmbeddings";
+
+export type EmbeddingProviderId = 'local' | 'gemini' | 'openai';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  label: string;
+  // Stored with each vector; only vectors with the same model are compared.
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<EmbeddingProviderId, string> = {
+  local: 'hash',
+  gemini: 'text-embedding-004',
+  openai: 'nomic-embed-text'
+};
+
+// Texts per request to remote backends.
+const BATCH_SIZE = 32;
+
+/**
+ * Reads embedding settings injected by vite.config.ts. Defaults to the offline backend.
+ */
+export function createEmbedderFromEnv(): EmbeddingProvider {
+  const requested = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+  const model = process.env.EMBEDDING_MODEL || undefined;
+  switch (requested) {
+    case 'gemini':
+      return createGeminiEmbedder({ model: model || DEFAULT_MODELS.gemini, apiKey: process.env.API_KEY });
+    case 'openai':
+      return createOpenAIEmbedder({
+        model: model || DEFAULT_MODELS.openai,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1'
+      });
+    default:
+      return createLocalEmbedder();
+  }
+}
+
+let activeEmbedder: EmbeddingProvider | null = null;
+
+export function getEmbedder(): EmbeddingProvider {
+  if (!activeEmbedder) {
+    activeEmbedder = createEmbedderFromEnv();
+  }
+  return activeEmbedder;
+}
+
+export function setEmbedder(embedder: EmbeddingProvider) {
+  activeEmbedder = embedder;
+}
+
+/**
+ * What a profile is "about": role, research and career, without contact details.
+ */
+export function profileEmbeddingText(p: Profile): string {
+  return [
+    [p.title, p.company].filter(Boolean).join(' at '),
+    p.region,
+    p.background,
+    p.what_they_do,
+    p.achievements,
+    (p.skills || []).join(', '),
+    careerText(p),
+    ...Object.entries(p.custom_fields || {}).map(([k, v]) => `${k}: ${v}`)
+  ].filter(Boolean).join('\n');
+}
+
+// Pending profiles have nothing worth embedding until they are enriched.
+const isEmbeddable = (p: Profile) => p.enrichment_status !== 'pending' && p.enrichment_status !== 'processing';
+
+function isCurrent(p: Profile, model: string): boolean {
+  return p.embedding?.model === model && p.embedding.source === fnv1a(profileEmbeddingText(p));
+}
+
+/**
+ * Embeds profiles that have no vector yet, or whose text or backend changed since.
+ * Returns only the new vectors, keyed by profile id.
+ */
+export async function embedProfiles(profiles: Profile[], embedder = getEmbedder()): Promise<Map<string, ProfileEmbedding>> {
+  const stale = profiles.filter(p => isEmbeddable(p) && !isCurrent(p, embedder.model));
+  const out = new Map<string, ProfileEmbedding>();
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const texts = batch.map(profileEmbeddingText);
+    const vectors = await embedder.embed(texts);
+    batch.forEach((p, j) => out.set(p.id, { model: embedder.model, source: fnv1a(texts[j]), vector: vectors[j] }));
+  }
+  return out;
+}
+
+/**
+ * Attaches vectors from `embedProfiles`, skipping any profile edited while they were computed.
+ */
+export function applyEmbeddings(profiles: Profile[], embeddings: Map<string, ProfileEmbedding>): Profile[] {
+  if (embeddings.size === 0) return profiles;
+  return profiles.map(p => {
+    const embedding = embeddings.get(p.id);
+    return embedding && embedding.source === fnv1a(profileEmbeddingText(p)) ? { ...p, embedding } : p;
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Profiles closest to `vector`, best first. Profiles without a vector from the same model are left out.
+ */
+export function nearestProfiles(
+  vector: ProfileEmbedding | { model: string, vector: number[] },
+  profiles: Profile[],
+  limit: number
+): Array<{ profile: Profile, similarity: number }> {
+  return profiles
+    .filter(p => p.embedding?.model === vector.model)
+    .map(p => ({ profile: p, similarity: cosineSimilarity(vector.vector, p.embedding!.vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Profiles closest in meaning to a free-text query.
+ */
+export async function nearestToQuery(query: string, profiles: Profile[], limit: number, embedder = getEmbedder()): Promise<Array<{ profile: Profile, similarity: number }>> {
+  if (!profiles.some(p => p.embedding?.model === embedder.model)) return [];
+  const [vector] = await embedder.embed([query]);
+  return nearestProfiles({ model: embedder.model, vector }, profiles, limit);
+}
@@ -0,0 +1,170 @@
+
+import { Profile } from "../types";
+
+/**
+ * Versioned column layout shared by CSV and XLSX exports.
+ * v1: exports from before the schema existed (no marker row, comma-joined skills, no status columns in CSV).
+ * v2: every Profile field; lists and nested objects are JSON-encoded. Columns added since
+ *     (positions, education, locks, ...) are optional, so older v2 files still read as v2.
+ * Embedding vectors are left out of spreadsheets: they are large, and recomputed after import.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+export const SCHEMA_MARKER = '# linkedin-recommender export schema v';
+export const METADATA_SHEET = 'Metadata';
+export const PROFILES_SHEET = 'Enriched Profiles';
+export const CUSTOM_COLUMN_PREFIX = 'Custom: ';
+
+type ColumnKind = 'text' | 'number' | 'boolean' | 'json';
+
+interface ExportColumn {
+  header: string;
+  key: keyof Profile;
+  kind: ColumnKind;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'ID', key: 'id', kind: 'text' },
+  { header: 'Name', key: 'name', kind: 'text' },
+  { header: 'Title', key: 'title', kind: 'text' },
+  { header: 'Company', key: 'company', kind: 'text' },
+  { header: 'Region', key: 'region', kind: 'text' },
+  { header: 'LinkedIn', key: 'linkedin_url', kind: 'text' },
+  { header: 'Email', key: 'email', kind: 'text' },
+  { header: 'Years of Experience', key: 'years_of_experience', kind: 'text' },
+  { header: 'Background', key: 'background', kind: 'text' },
+  { header: 'Responsibilities', key: 'what_they_do', kind: 'text' },
+  { header: 'Achievements', key: 'achievements', kind: 'text' },
+  { header: 'Skills', key: 'skills', kind: 'json' },
+  { header: 'Positions', key: 'positions', kind: 'json' },
+  { header: 'Education', key: 'education', kind: 'json' },
+  { header: 'Experience Range', key: 'experience_range', kind: 'json' },
+  { header: 'Grounding URLs', key: 'grounding_urls', kind: 'json' },
+  { header: 'Provenance', key: 'provenance', kind: 'json' },
+  { header: 'Match Reason', key: 'match_reason', kind: 'text' },
+  { header: 'Score', key: 'score', kind: 'number' },
+  { header: 'Suggested Connections', key: 'suggested_connections', kind: 'json' },
+  { header: 'Status', key: 'enrichment_status', kind: 'text' },
+  { header: 'Source', key: 'enrichment_source', kind: 'text' },
+  { header: 'Enrichment Attempts', key: 'enrichment_attempts', kind: 'number' },
+  { header: 'Enriched At', key: 'enriched_at', kind: 'number' },
+  { header: 'Requeued From', key: 'requeued_from', kind: 'text' },
+  { header: 'Force Refresh', key: 'force_refresh', kind: 'boolean' },
+  { header: 'Identity Status', key: 'identity_status', kind: 'text' },
+  { header: 'Identity Candidates', key: 'identity_candidates', kind: 'json' },
+  { header: 'Locked Fields', key: 'locked_fields', kind: 'json' },
+  { header: 'Edit History', key: 'edit_history', kind: 'json' },
+  { header: 'Selected', key: 'selected', kind: 'boolean' },
+  { header: 'Merged IDs', key: 'merged_ids', kind: 'json' },
+  { header: 'Imported From', key: 'sources', kind: 'json' }
+];
+
+// Headers are matched loosely so "Years of Experience" (CSV) and "YearsOfExperience" (old XLSX) agree.
+export const columnKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Reads the schema version from a marker row; null when the first row is a plain header row.
+ */
+export function readSchemaVersion(firstRow: string[]): number | null {
+  const cell = (firstRow[0] || '').trim();
+  if (!cell.startsWith(SCHEMA_MARKER)) return null;
+  return parseInt(cell.slice(SCHEMA_MARKER.length), 10) || null;
+}
+
+export function exportHeaders(customKeys: string[]): string[] {
+  return [...EXPORT_COLUMNS.map(c => c.header), ...customKeys.map(k => CUSTOM_COLUMN_PREFIX + k)];
+}
+
+function encodeCell(value: unknown, kind: ColumnKind): string {
+  if (value === undefined || value === null) return '';
+  if (kind === 'json') return JSON.stringify(value);
+  return String(value);
+}
+
+function decodeCell(value: string, kind: ColumnKind): unknown {
+  if (value === '') return undefined;
+  switch (kind) {
+    case 'number': {
+      const n = Number(value);
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case 'boolean':
+      return value.toLowerCase() === 'true';
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    default:
+      return value;
+  }
+}
+
+export function profileToRow(p: Profile, customKeys: string[]): string[] {
+  return [
+    ...EXPORT_COLUMNS.map(c => encodeCell(p[c.key], c.kind)),
+    ...customKeys.map(k => p.custom_fields?.[k] || '')
+  ];
+}
+
+type Table = { headers: string[], rows: string[][] };
+
+// Each step upgrades a table from version `from` to `from + 1`.
+const MIGRATIONS: Record<number, (table: Table) => Table> = {
+  1: ({ headers, rows }) => {
+    const keys = headers.map(columnKey);
+    const skillsIdx = keys.indexOf('skills');
+    const hasStatus = keys.includes('status');
+    const hasSource = keys.includes('source');
+    return {
+      headers: [...headers, ...(hasStatus ? [] : ['Status']), ...(hasSource ? [] : ['Source'])],
+      rows: rows.map(row => {
+        const next = [...row];
+        if (skillsIdx !== -1) {
+          const skills = (row[skillsIdx] || '').split(',').map(s => s.trim().replace(/^"|"$/g, '')).filter(Boolean);
+          next[skillsIdx] = skills.length > 0 ? JSON.stringify(skills) : '';
+        }
+        // v1 CSVs had no status; everything restored was treated as web-researched.
+        if (!hasStatus) next.push('success');
+        if (!hasSource) next.push('gemini_web');
+        return next;
+      })
+    };
+  }
+};
+
+export function migrateTable(table: Table, version: number): Table {
+  let current = table;
+  for (let v = version; v < EXPORT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (step) current = step(current);
+  }
+  return current;
+}
+
+/**
+ * Decodes a current-version table into raw records, one per row. Cells are not shape-checked here;
+ * callers run the records through the session validator.
+ */
+export function rowsToRecords({ headers, rows }: Table): Record<string, unknown>[] {
+  const keys = headers.map(columnKey);
+  const columns = EXPORT_COLUMNS
+    .map(c => ({ ...c, idx: keys.indexOf(columnKey(c.header)) }))
+    .filter(c => c.idx !== -1);
+  const customCols = headers
+    .map((header, idx) => ({ header: header.replace(/^["']|["']$/g, '').trim(), idx }))
+    .filter(({ header }) => header.toLowerCase().startsWith(CUSTOM_COLUMN_PREFIX.toLowerCase()))
+    .map(({ header, idx }) => ({ label: header.slice(CUSTOM_COLUMN_PREFIX.length), idx }));
+
+  return rows.map(row => {
+    const record: Record<string, unknown> = { enrichment_status: 'success', enrichment_source: 'gemini_web', selected: true };
+    columns.forEach(c => {
+      const value = decodeCell((row[c.idx] || '').trim(), c.kind);
+      if (value !== undefined) record[c.key] = value;
+    });
+    if (!record.name) record.name = 'Unknown';
+    const custom = customCols.filter(({ idx }) => row[idx]);
+    if (custom.length > 0) record.custom_fields = Object.fromEntries(custom.map(({ label, idx }) => [label, row[idx]]));
+    return record;
+  });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCompany, normalizeRegion, seniorityOf } from './facets';
+
+describe('normalizeRegion', () => {
+  it.each([
+    ['San Francisco, CA', 'San Francisco Bay Area'],
+    ['Palo Alto', 'San Francisco Bay Area'],
+    ['NYC', 'New York City Area'],
+    ['LA', 'Los Angeles Area'],
+    ['Greater Los Angeles Area', 'Los Angeles Area'],
+    ['New Orleans, LA', 'New Orleans, LA'],
+    ['La Jolla, California', 'La Jolla, CA'],
+    ['La Paz, Bolivia', 'La Paz'],
+    ['Venice, Italy', 'Venice'],
+    ['Paris, France', 'Paris'],
+    ['Paris, TX', 'Paris, TX'],
+    ['Austin, Texas, USA', 'Austin, TX'],
+    ['', '']
+  ])('groups %j as %j', (region, expected) => {
+    expect(normalizeRegion(region)).toBe(expected);
+  });
+});
+
+describe('normalizeCompany', () => {
+  it('drops legal suffixes', () => {
+    expect(normalizeCompany('Acme, Inc.')).toBe('Acme');
+    expect(normalizeCompany('Beta GmbH')).toBe('Beta');
+  });
+});
+
+describe('seniorityOf', () => {
+  it('buckets titles', () => {
+    expect(seniorityOf('Co-founder & CEO')).toBe('Executive / Founder');
+    expect(seniorityOf('Head of Growth')).toBe('VP / Director');
+    expect(seniorityOf('Senior Engineer')).toBe('Senior');
+    expect(seniorityOf('Engineer')).toBe('Individual Contributor');
+    expect(seniorityOf('')).toBe('');
+  });
+});
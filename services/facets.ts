@@ -0,0 +1,213 @@
+
+import { Profile } from "../types";
+
+export type FacetId = 'region' | 'company' | 'seniority' | 'experience' | 'skills' | 'status' | 'source' | `custom:${string}`;
+
+export interface FacetDefinition {
+  id: FacetId;
+  label: string;
+  // A profile can hold several values (skills); most facets have at most one.
+  values: (p: Profile) => string[];
+}
+
+export interface FacetSelection {
+  values: string[];
+  // 'any' keeps profiles with at least one selected value (OR), 'all' only those with every one (AND).
+  mode: 'any' | 'all';
+}
+
+export type FacetFilters = Partial<Record<FacetId, FacetSelection>>;
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+}
+
+// Custom columns with more distinct answers than this are free text, not categories.
+const MAX_CUSTOM_FACET_VALUES = 25;
+
+// For telling "Paris, TX" from Paris and "New Orleans, LA" from Los Angeles.
+const US_STATE_CODES = new Set([
+  'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'dc', 'fl', 'ga', 'hi', 'id', 'il', 'in', 'ia', 'ks', 'ky', 'la',
+  'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh', 'nj', 'nm', 'ny', 'nc', 'nd', 'oh', 'ok', 'or',
+  'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut', 'vt', 'va', 'wa', 'wv', 'wi', 'wy'
+]);
+const US_STATE_NAMES: Record<string, string> = {
+  alabama: 'al', alaska: 'ak', arizona: 'az', arkansas: 'ar', california: 'ca', colorado: 'co', connecticut: 'ct',
+  delaware: 'de', florida: 'fl', georgia: 'ga', hawaii: 'hi', idaho: 'id', illinois: 'il', indiana: 'in', iowa: 'ia',
+  kansas: 'ks', kentucky: 'ky', louisiana: 'la', maine: 'me', maryland: 'md', massachusetts: 'ma', michigan: 'mi',
+  minnesota: 'mn', mississippi: 'ms', missouri: 'mo', montana: 'mt', nebraska: 'ne', nevada: 'nv',
+  'new hampshire': 'nh', 'new jersey': 'nj', 'new mexico': 'nm', 'new york': 'ny', 'north carolina': 'nc',
+  'north dakota': 'nd', ohio: 'oh', oklahoma: 'ok', oregon: 'or', pennsylvania: 'pa', 'rhode island': 'ri',
+  'south carolina': 'sc', 'south dakota': 'sd', tennessee: 'tn', texas: 'tx', utah: 'ut', vermont: 'vt',
+  virginia: 'va', washington: 'wa', 'west virginia': 'wv', wisconsin: 'wi', wyoming: 'wy'
+};
+const COUNTRY_SUFFIX = /^(usa|us|u\.s\.a?\.?|united states( of america)?)$/;
+
+/**
+ * The state code a US region ends with ("Austin, Texas, USA" -> "tx"), if any. A lone "LA" is a city, not a state.
+ */
+function trailingState(lower: string): string | undefined {
+  const parts = lower.split(',').map(part => part.trim()).filter(Boolean);
+  while (parts.length > 1 && COUNTRY_SUFFIX.test(parts[parts.length - 1])) parts.pop();
+  if (parts.length < 2) return undefined;
+  const last = parts[parts.length - 1].replace(/\./g, '');
+  return US_STATE_CODES.has(last) ? last : US_STATE_NAMES[last];
+}
+
+// Metro areas people write many ways; checked in order against the lowercased region. `states` lists
+// the US states a metro can be suffixed with; places abroad take none, so "Paris, TX" is not Paris.
+const REGION_ALIASES: Array<{ pattern: RegExp, region: string, states: string[] }> = [
+  {
+    pattern: /\b(sf|san francisco|bay area|silicon valley|palo alto|mountain view|menlo park|oakland|berkeley|san jose|sunnyvale|redwood city|cupertino|santa clara)\b/,
+    region: 'San Francisco Bay Area',
+    states: ['ca']
+  },
+  { pattern: /\b(nyc|new york|manhattan|brooklyn|queens)\b/, region: 'New York City Area', states: ['ny'] },
+  // "LA" only on its own or as "LA area"/"LA county"; Louisiana, La Jolla and La Paz are not Los Angeles.
+  {
+    pattern: /^l\.?a\.?$|\bla (area|county|metro)\b|\b(los angeles|santa monica|pasadena|venice beach)\b|\bvenice,\s*(ca|california)\b/,
+    region: 'Los Angeles Area',
+    states: ['ca']
+  },
+  { pattern: /\b(seattle|bellevue|redmond)\b/, region: 'Seattle Area', states: ['wa'] },
+  { pattern: /\b(boston|cambridge, ma|somerville)\b/, region: 'Boston Area', states: ['ma'] },
+  { pattern: /\b(dc|washington,? d\.?c\.?|arlington, va)\b/, region: 'Washington DC Area', states: ['dc', 'va', 'md'] },
+  { pattern: /\blondon\b/, region: 'London', states: [] },
+  { pattern: /\bberlin\b/, region: 'Berlin', states: [] },
+  { pattern: /\bparis\b/, region: 'Paris', states: [] },
+  { pattern: /\btoronto\b/, region: 'Toronto', states: [] },
+  { pattern: /\b(bangalore|bengaluru)\b/, region: 'Bengaluru', states: [] },
+  { pattern: /\b(remote|anywhere|distributed)\b/, region: 'Remote', states: [] }
+];
+
+const titleCase = (value: string) => value.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase());
+
+/**
+ * Groups spellings of the same place: "SF Bay Area", "San Francisco, CA" and "Palo Alto"
+ * all become "San Francisco Bay Area". Unknown places keep their first segment, plus the state for US
+ * places ("Austin, Texas, USA" -> "Austin, TX"), so "Paris, TX" stays apart from Paris.
+ */
+export function normalizeRegion(region?: string): string {
+  const value = (region || '').trim();
+  if (!value) return '';
+  const lower = value.toLowerCase();
+  const state = trailingState(lower);
+  const alias = REGION_ALIASES.find(a => a.pattern.test(lower) && (!state || a.states.includes(state)));
+  if (alias) return alias.region;
+  const first = value.split(',')[0]
+    .replace(/\b(greater|metropolitan|metro)\b/gi, '')
+    .replace(/\barea\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!first) return titleCase(value);
+  return state ? `${titleCase(first)}, ${state.toUpperCase()}` : titleCase(first);
+}
+
+// Legal suffixes that split one company into several buckets.
+const COMPANY_SUFFIX = /[,\s]+(inc|llc|ltd|limited|gmbh|corp|corporation|co|plc|s\.?a)\.?$/i;
+
+export function normalizeCompany(company?: string): string {
+  return (company || '').trim().replace(COMPANY_SUFFIX, '').trim();
+}
+
+const SENIORITY_RULES: Array<[RegExp, string]> = [
+  [/\b(ceo|cto|cfo|coo|cmo|cpo|chief|founder|co-founder|cofounder|president|owner|managing partner|general partner)\b/, 'Executive / Founder'],
+  [/\b(vp|vice president|svp|evp|head of|director|partner)\b/, 'VP / Director'],
+  [/\b(manager|lead|team lead)\b/, 'Manager / Lead'],
+  [/\b(senior|sr\.?|staff|principal)\b/, 'Senior'],
+  [/\b(intern|junior|jr\.?|student|graduate|trainee|apprentice)\b/, 'Entry Level']
+];
+
+export function seniorityOf(title?: string): string {
+  const t = (title || '').toLowerCase();
+  if (!t.trim()) return '';
+  return SENIORITY_RULES.find(([re]) => re.test(t))?.[1] || 'Individual Contributor';
+}
+
+// Ordered so the facet lists them from junior to senior.
+export const EXPERIENCE_BUCKETS: Array<{ label: string, min: number, max: number }> = [
+  { label: '0–2 years', min: 0, max: 2 },
+  { label: '3–5 years', min: 3, max: 5 },
+  { label: '6–10 years', min: 6, max: 10 },
+  { label: '11–15 years', min: 11, max: 15 },
+  { label: '16+ years', min: 16, max: Infinity }
+];
+
+/**
+ * Every bucket the profile's experience range overlaps; an open-ended "12+" lands in 11–15 and 16+.
+ */
+export function experienceBuckets(p: Profile): string[] {
+  const range = p.experience_range;
+  if (!range) return [];
+  const max = range.max ?? Infinity;
+  return EXPERIENCE_BUCKETS.filter(b => range.min <= b.max && max >= b.min).map(b => b.label);
+}
+
+const single = (value: string) => value ? [value] : [];
+
+/**
+ * The facets for a profile list: built-in ones plus one per custom field that looks categorical.
+ */
+export function facetDefinitions(profiles: Profile[]): FacetDefinition[] {
+  // Case variants ("python", "Python") count as one skill, shown with the first spelling seen.
+  const skillSpelling = new Map<string, string>();
+  profiles.forEach(p => (p.skills || []).forEach(s => {
+    if (!skillSpelling.has(s.toLowerCase())) skillSpelling.set(s.toLowerCase(), s);
+  }));
+  const builtIn: FacetDefinition[] = [
+    { id: 'region', label: 'Region', values: p => single(normalizeRegion(p.region)) },
+    { id: 'company', label: 'Company', values: p => single(normalizeCompany(p.company)) },
+    { id: 'seniority', label: 'Seniority', values: p => single(seniorityOf(p.title)) },
+    { id: 'experience', label: 'Experience', values: experienceBuckets },
+    {
+      id: 'skills',
+      label: 'Skills',
+      values: p => Array.from(new Set((p.skills || []).map(s => skillSpelling.get(s.toLowerCase()) || s)))
+    },
+    { id: 'status', label: 'Enrichment Status', values: p => single(p.enrichment_status) },
+    { id: 'source', label: 'Enrichment Source', values: p => single(p.enrichment_source.replace('_', ' ')) }
+  ];
+
+  const customKeys = Array.from(new Set(profiles.flatMap(p => Object.keys(p.custom_fields || {}))));
+  const custom: FacetDefinition[] = customKeys
+    .filter(key => new Set(profiles.map(p => (p.custom_fields?.[key] || '').trim()).filter(Boolean)).size <= MAX_CUSTOM_FACET_VALUES)
+    .map(key => ({ id: `custom:${key}` as FacetId, label: key, values: p => single((p.custom_fields?.[key] || '').trim()) }));
+
+  return [...builtIn, ...custom];
+}
+
+function matches(p: Profile, facet: FacetDefinition, selection?: FacetSelection): boolean {
+  if (!selection || selection.values.length === 0) return true;
+  const values = new Set(facet.values(p));
+  return selection.mode === 'all'
+    ? selection.values.every(v => values.has(v))
+    : selection.values.some(v => values.has(v));
+}
+
+/**
+ * Profiles passing every active facet. Facets combine with AND; values within a facet follow its mode.
+ */
+export function applyFacets(profiles: Profile[], facets: FacetDefinition[], filters: FacetFilters): Profile[] {
+  return profiles.filter(p => facets.every(f => matches(p, f, filters[f.id])));
+}
+
+/**
+ * Value counts per facet. Each facet is counted against the profiles passing all the *other*
+ * facets, so its numbers show what selecting a value would add or narrow to.
+ */
+export function facetCounts(profiles: Profile[], facets: FacetDefinition[], filters: FacetFilters): Record<string, FacetValueCount[]> {
+  const out: Record<string, FacetValueCount[]> = {};
+  facets.forEach(facet => {
+    const others = facets.filter(f => f.id !== facet.id);
+    const counts = new Map<string, number>();
+    profiles
+      .filter(p => others.every(f => matches(p, f, filters[f.id])))
+      .forEach(p => facet.values(p).forEach(v => counts.set(v, (counts.get(v) || 0) + 1)));
+    const order = facet.id === 'experience' ? EXPERIENCE_BUCKETS.map(b => b.label) : null;
+    out[facet.id] = Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => order ? order.indexOf(a.value) - order.indexOf(b.value) : b.count - a.count || a.value.localeCompare(b.value));
+  });
+  return out;
+}
@@ -1,59 +1,159 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { EnrichmentResult, FallbackResult, GroundingLink, Profile } from "../types";
+import { Type } from "@google/genai";
+import { AgentAction, AgentMatch, AgentTurn, EnrichmentResult, FallbackResult, IdentityCandidate, Profile, RoleIdentification } from "../types";
+import { generate } from "./llm";
+import { isRetryableError } from "./queue";
+import { buildProvenance, PROVENANCE_FIELDS } from "./provenance";
+import { nearestProfiles, nearestToQuery } from "./embeddings";
+import { careerText, normalizeEducation, normalizeExperienceRange, normalizePositions, parseExperienceRange } from "./career";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Bump when a cached operation's prompt or schema changes so stale answers are not reused.
+ */
+export const PROMPT_VERSIONS = {
+  identify_role: 2,
+  enrich: 3
+};
+
+/**
+ * Flattens user-defined CSV fields (ticket type, event goals...) for prompts.
+ */
+function describeCustomFields(p: Profile): string {
+  return Object.entries(p.custom_fields || {}).map(([k, v]) => `${k}: ${v}`).join('; ');
+}
+
+// Below this the top guess is not trusted and a person picks among the candidates.
+export const IDENTITY_CONFIDENCE_THRESHOLD = 0.6;
+
+export function needsIdentityReview(role: RoleIdentification): boolean {
+  return role.confidence < IDENTITY_CONFIDENCE_THRESHOLD && role.candidates.length > 1;
+}
 
 /**
  * Identifies basic role/company for a profile missing info.
+ * When the name is shared by several people, returns them as ranked candidates with evidence.
  */
-export async function identifyRole(name: string, linkedinUrl?: string): Promise<{ title: string; company: string; region: string }> {
+export async function identifyRole(
+  name: string,
+  linkedinUrl?: string,
+  hints: { title?: string; company?: string; email?: string } = {}
+): Promise<RoleIdentification> {
+  const known = [
+    hints.title && `Title: ${hints.title}`,
+    hints.company && `Company: ${hints.company}`,
+    hints.email && `Email domain: ${hints.email.split('@')[1] || ''}`
+  ].filter(Boolean).join('\n    ');
   const prompt = `
     Identify the current professional role, company, and geographic region for this person.
     Name: ${name}
     ${linkedinUrl ? `LinkedIn: ${linkedinUrl}` : ''}
+    ${known}
+
+    Many names are shared by several professionals. Rate from 0 to 1 how sure you are that your answer
+    is this specific person. If you are not sure, list up to 4 distinct people with this name as
+    "candidates", best match first, each with a one-sentence "evidence" explaining what you found.
 
     Return JSON:
-    { "title": "Current Job Title", "company": "Current Company", "region": "City, State or Region" }
+    { "title": "Current Job Title", "company": "Current Company", "region": "City, State or Region",
+      "confidence": 0.0, "candidates": [{ "title": "", "company": "", "region": "", "linkedin_url": "", "evidence": "", "confidence": 0.0 }] }
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            company: { type: Type.STRING },
-            region: { type: Type.STRING }
-          },
-          required: ["title", "company", "region"]
-        }
+    const response = await generate({
+      operation: 'identify_role',
+      prompt,
+      input: { name, linkedinUrl, ...hints },
+      webSearch: true,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          company: { type: Type.STRING },
+          region: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          candidates: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                company: { type: Type.STRING },
+                region: { type: Type.STRING },
+                linkedin_url: { type: Type.STRING },
+                evidence: { type: Type.STRING },
+                confidence: { type: Type.NUMBER }
+              },
+              required: ["title", "company", "region", "linkedin_url", "evidence", "confidence"]
+            }
+          }
+        },
+        required: ["title", "company", "region", "confidence", "candidates"]
       }
     });
-    return JSON.parse(response.text.trim());
+    const result: { title?: unknown, company?: unknown, region?: unknown, confidence?: unknown, candidates?: unknown } = JSON.parse(response.text.trim());
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const candidates: IdentityCandidate[] = (Array.isArray(result.candidates) ? result.candidates : [])
+      .filter((c): c is Record<string, unknown> => typeof c === 'object' && c !== null)
+      .filter(c => text(c.title) || text(c.company))
+      .map(c => ({
+        title: text(c.title),
+        company: text(c.company),
+        region: text(c.region),
+        linkedin_url: text(c.linkedin_url) || undefined,
+        evidence: text(c.evidence),
+        confidence: typeof c.confidence === 'number' && Number.isFinite(c.confidence) ? Math.max(0, Math.min(1, c.confidence)) : 0
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+    return {
+      title: text(result.title),
+      company: text(result.company),
+      region: text(result.region),
+      // A LinkedIn URL pins the person down; older answers without a score are trusted as before.
+      confidence: linkedinUrl ? 1 : typeof result.confidence === 'number' ? result.confidence : 1,
+      candidates
+    };
   } catch (error) {
     console.error("Role Identification Error:", error);
-    return { title: '', company: '', region: '' };
+    // Let the enrichment queue back off and retry instead of recording a blank role.
+    if (isRetryableError(error)) throw error;
+    return { title: '', company: '', region: '', confidence: 0, candidates: [] };
   }
 }
 
+// Most profiles a single prompt is given; larger lists are narrowed by embedding similarity first.
+const MAX_PROMPT_CANDIDATES = 40;
+const MAX_CONNECTION_CANDIDATES = 30;
+
 /**
- * AI Recommendation Agent: Matches user query against the whole profile set.
+ * One-line summary of a profile for agent prompts.
+ */
+function describeForAgent(p: Profile): string {
+  return `${p.name}, ${p.title} @ ${p.company} in ${p.region}. Background: ${p.background}. Skills: ${(p.skills || []).join(', ')}` +
+    (p.positions?.length || p.education?.length ? `. Career: ${careerText(p)}` : '') +
+    (p.custom_fields ? `. Other: ${describeCustomFields(p)}` : '');
+}
+
+/**
+ * AI Recommendation Agent: Matches user query against a profile set, pre-selecting
+ * the closest profiles by embedding when the set is too large for one prompt.
  */
 export async function recommendProfiles(
   query: string,
   profiles: Profile[]
 ): Promise<Array<{ id: string, score: number, reason: string }>> {
+  let candidates = profiles;
+  if (profiles.length > MAX_PROMPT_CANDIDATES) {
+    try {
+      const nearest = await nearestToQuery(query, profiles, MAX_PROMPT_CANDIDATES);
+      candidates = nearest.length > 0 ? nearest.map(n => n.profile) : profiles.slice(0, MAX_PROMPT_CANDIDATES);
+    } catch (error) {
+      console.error("Query embedding failed:", error);
+      candidates = profiles.slice(0, MAX_PROMPT_CANDIDATES);
+    }
+  }
+
   // Create a condensed representation for the model
-  const context = profiles.map(p => ({
-    id: p.id,
-    info: `${p.name}, ${p.title} @ ${p.company} in ${p.region}. Background: ${p.background}. Skills: ${(p.skills || []).join(', ')}`
-  }));
+  const context = candidates.map(p => ({ id: p.id, info: describeForAgent(p) }));
 
   const prompt = `
     You are an expert Networking Agent. Given the following user request and a list of professional profiles, 
@@ -73,22 +173,20 @@ export async function recommendProfiles(
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              score: { type: Type.NUMBER },
-              reason: { type: Type.STRING }
-            },
-            required: ["id", "score", "reason"]
-          }
+    const response = await generate({
+      operation: 'recommend',
+      prompt,
+      input: { query, profiles: context },
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            score: { type: Type.NUMBER },
+            reason: { type: Type.STRING }
+          },
+          required: ["id", "score", "reason"]
         }
       }
     });
@@ -99,6 +197,137 @@ export async function recommendProfiles(
   }
 }
 
+// Earlier turns sent with each chat message; older ones rarely change what "them" refers to.
+const MAX_HISTORY_TURNS = 8;
+// Profiles outside the current results offered to the agent, for "also show me..." requests.
+const MAX_CONVERSE_EXTRA = 20;
+const AGENT_ACTIONS: AgentAction[] = ['search', 'narrow', 'refine', 'explain', 'answer'];
+
+/**
+ * Profiles the user names in a message ("why not Jane?"), matched by full or first name.
+ */
+function mentionedProfiles(message: string, profiles: Profile[]): Profile[] {
+  const text = ` ${message.toLowerCase().replace(/[^a-z0-9\s]/g, ' ')} `;
+  const full = profiles.filter(p => p.name && text.includes(` ${p.name.toLowerCase()} `));
+  if (full.length > 0) return full.slice(0, 5);
+  return profiles.filter(p => {
+    const first = (p.name || '').toLowerCase().split(/\s+/)[0];
+    return first.length >= 2 && text.includes(` ${first} `);
+  }).slice(0, 5);
+}
+
+/**
+ * Networking agent for the chat panel. Sees the conversation so far and the results currently on
+ * screen, and either replaces them (search), filters them (narrow), re-ranks or extends them
+ * (refine), or just answers (explain / answer). Replies reference people as [[id]].
+ */
+export async function converseWithAgent(
+  message: string,
+  history: AgentTurn[],
+  current: Profile[],
+  pool: Profile[]
+): Promise<{ action: AgentAction, reply: string, results: AgentMatch[], error?: boolean }> {
+  const shown = current.slice(0, MAX_PROMPT_CANDIDATES);
+  const shownIds = new Set(shown.map(p => p.id));
+  const outside = pool.filter(p => !shownIds.has(p.id));
+  // Earlier user messages carry the topic ("founders in climate") that follow-ups leave out.
+  const topic = [...history.filter(t => t.role === 'user').slice(-2).map(t => t.text), message].join('\n');
+  let extra: Profile[];
+  try {
+    const nearest = await nearestToQuery(topic, outside, MAX_CONVERSE_EXTRA);
+    extra = nearest.length > 0 ? nearest.map(n => n.profile) : outside.slice(0, MAX_CONVERSE_EXTRA);
+  } catch (error) {
+    console.error("Query embedding failed:", error);
+    extra = outside.slice(0, MAX_CONVERSE_EXTRA);
+  }
+  const mentioned = mentionedProfiles(message, pool).filter(p => !shownIds.has(p.id) && !extra.includes(p));
+  const names = new Map(pool.map(p => [p.id, p.name]));
+
+  const context = [...shown, ...mentioned, ...extra].map(p => ({
+    id: p.id,
+    name: p.name,
+    in_current_results: shownIds.has(p.id),
+    info: describeForAgent(p)
+  }));
+  // Failed turns, and the messages they failed to answer, are not part of the conversation.
+  const answered = history.filter((t, i) => !t.error && !(t.role === 'user' && history[i + 1]?.error));
+  const transcript = answered.slice(-MAX_HISTORY_TURNS).map(t => t.role === 'user'
+    ? `User: ${t.text}`
+    : t.results
+      ? `Agent (${t.action}, now showing ${t.results.slice(0, 10).map(r => names.get(r.id) || r.id).join(', ') || 'no one'}): ${t.text}`
+      : `Agent (${t.action || 'answer'}): ${t.text}`
+  ).join('\n');
+
+  const prompt = `
+    You are an expert Networking Agent chatting with someone about the attendees of an event.
+    The current results are the profiles marked "in_current_results", best first.
+
+    CONVERSATION SO FAR:
+    ${transcript || '(none)'}
+
+    NEW MESSAGE: "${message}"
+
+    PROFILES:
+    ${JSON.stringify(context, null, 2)}
+
+    Decide what the message asks for and return:
+    1. "action": one of
+       - "search": a new request; return the best matches from all profiles.
+       - "narrow": keep only the current results that fit the new condition.
+       - "refine": re-rank the current results, or add matching profiles that are not in them.
+       - "explain": explain why someone is or is not in the results; do not change them.
+       - "answer": any other question about the people; do not change the results.
+    2. "reply": a short answer (max 80 words, Markdown). Refer to people only as [[id]] using their exact id.
+    3. "results": for search, narrow and refine, the new result set, best first, each with the exact "id",
+       a "score" from 0-100 and a "reason" (max 15 words). Return an empty array for explain and answer.
+  `;
+
+  try {
+    const response = await generate({
+      operation: 'converse',
+      prompt,
+      input: { message, history: transcript, profiles: context },
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          action: { type: Type.STRING, enum: AGENT_ACTIONS },
+          reply: { type: Type.STRING },
+          results: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                score: { type: Type.NUMBER },
+                reason: { type: Type.STRING }
+              },
+              required: ["id", "score", "reason"]
+            }
+          }
+        },
+        required: ["action", "reply", "results"]
+      }
+    });
+    const result: { action?: unknown, reply?: unknown, results?: unknown[] } = JSON.parse(response.text.trim());
+    const action = AGENT_ACTIONS.find(a => a === result.action) || 'answer';
+    // Narrowing may only drop people; other actions may use anyone the agent was shown.
+    const allowed = new Set(action === 'narrow' ? shownIds : context.map(c => c.id));
+    const rows = action === 'explain' || action === 'answer' || !Array.isArray(result.results) ? [] : result.results;
+    const results: AgentMatch[] = rows
+      .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null)
+      .filter(r => typeof r.id === 'string' && allowed.has(r.id))
+      .map(r => ({
+        id: r.id as string,
+        score: typeof r.score === 'number' ? Math.max(0, Math.min(100, r.score)) : undefined,
+        reason: typeof r.reason === 'string' ? r.reason : undefined
+      }));
+    return { action, reply: typeof result.reply === 'string' ? result.reply : '', results };
+  } catch (error) {
+    console.error("Agent Conversation Error:", error);
+    return { action: 'answer', reply: "I couldn't reach the model just now. Please try again.", results: [], error: true };
+  }
+}
+
 /**
  * Deep extraction of profile info.
  */
@@ -122,45 +351,70 @@ export async function enrichWithGemini(
     5. "achievements": Notable awards or recognition.
     6. "skills": Array of 5-15 skills.
     7. "is_valid": boolean (true if info is found).
+    8. "confidence": for each of fields 1-6, how sure you are from 0 to 1. Use low values for anything you inferred rather than found.
+    9. "positions": Work history, most recent first, as objects with "title", "company", "start" and "end" ("YYYY" or "YYYY-MM"; omit "end" for the current role). Only include roles you found.
+    10. "education": Objects with "school", "degree" (e.g. "PhD", "BSc") and "field" of study. Only include what you found.
+    11. "experience_range": Total years of experience as numbers {"min", "max"}; omit "max" when open-ended.
 
     Return ONLY JSON.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            years_of_experience: { type: Type.STRING, description: "Total years of professional experience" },
-            region: { type: Type.STRING },
-            background: { type: Type.STRING },
-            what_they_do: { type: Type.STRING },
-            achievements: { type: Type.STRING },
-            skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-            is_valid: { type: Type.BOOLEAN }
+    const response = await generate({
+      operation: 'enrich',
+      prompt,
+      input: { name, title, company, linkedinUrl },
+      webSearch: true,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          years_of_experience: { type: Type.STRING, description: "Total years of professional experience" },
+          region: { type: Type.STRING },
+          background: { type: Type.STRING },
+          what_they_do: { type: Type.STRING },
+          achievements: { type: Type.STRING },
+          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+          is_valid: { type: Type.BOOLEAN },
+          positions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { title: { type: Type.STRING }, company: { type: Type.STRING }, start: { type: Type.STRING }, end: { type: Type.STRING } },
+              required: ["title", "company"]
+            }
           },
-          required: ["years_of_experience", "region", "background", "what_they_do", "achievements", "skills", "is_valid"]
-        }
-      },
+          education: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { school: { type: Type.STRING }, degree: { type: Type.STRING }, field: { type: Type.STRING } },
+              required: ["school"]
+            }
+          },
+          experience_range: {
+            type: Type.OBJECT,
+            properties: { min: { type: Type.NUMBER }, max: { type: Type.NUMBER } },
+            required: ["min"]
+          },
+          confidence: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(PROVENANCE_FIELDS.map(f => [f, { type: Type.NUMBER }]))
+          }
+        },
+        required: ["years_of_experience", "region", "background", "what_they_do", "achievements", "skills", "is_valid", "confidence"]
+      }
     });
 
-    const result = JSON.parse(response.text.trim());
-    const groundingUrls: GroundingLink[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web && chunk.web.uri) {
-          groundingUrls.push({ uri: chunk.web.uri, title: chunk.web.title || "Source" });
-        }
-      });
-    }
-
-    return { ...result, grounding_urls: groundingUrls } as EnrichmentResult;
+    const { confidence, ...result } = JSON.parse(response.text.trim());
+    return {
+      ...result,
+      // Models fill these loosely; dates and bounds are normalized, and the range falls back to the text estimate.
+      positions: normalizePositions(result.positions),
+      education: normalizeEducation(result.education),
+      experience_range: normalizeExperienceRange(result.experience_range) || parseExperienceRange(result.years_of_experience),
+      grounding_urls: response.grounding_urls,
+      provenance: buildProvenance(result, response.grounding_supports, confidence)
+    } as EnrichmentResult;
   } catch (error) {
     console.error(`Gemini Enrichment Error for ${name}:`, error);
     throw error;
@@ -173,7 +427,8 @@ export async function getGlobalInsights(profiles: Profile[]): Promise<string> {
     title: p.title,
     company: p.company,
     skills: p.skills || [],
-    background: p.background
+    background: p.background,
+    other: p.custom_fields
   }));
 
   const prompt = `
@@ -191,9 +446,10 @@ export async function getGlobalInsights(profiles: Profile[]): Promise<string> {
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
+    const response = await generate({
+      operation: 'insights',
+      prompt,
+      input: { profiles: context.slice(0, 50) }
     });
     return response.text || "No insights available.";
   } catch (error) {
@@ -207,12 +463,19 @@ export async function getSuggestedConnections(
   allProfiles: Profile[]
 ): Promise<Array<{ id: string, reason: string }>> {
   const others = allProfiles.filter(p => p.id !== targetProfile.id);
-  const context = others.map(p => ({
+  // The most similar people first, so a large event is not cut off at whoever was imported first.
+  const nearest = targetProfile.embedding
+    ? nearestProfiles(targetProfile.embedding, others, MAX_CONNECTION_CANDIDATES).map(n => n.profile)
+    : [];
+  const picked = new Set(nearest.map(p => p.id));
+  const candidates = [...nearest, ...others.filter(p => !picked.has(p.id))].slice(0, MAX_CONNECTION_CANDIDATES);
+  const context = candidates.map(p => ({
     id: p.id,
     name: p.name,
     title: p.title,
     company: p.company,
-    skills: p.skills || []
+    skills: p.skills || [],
+    other: p.custom_fields
   }));
 
   const prompt = `
@@ -220,9 +483,10 @@ export async function getSuggestedConnections(
     
     Target Profile Skills: ${(targetProfile.skills || []).join(', ')}
     Target Profile Background: ${targetProfile.background}
+    ${targetProfile.custom_fields ? `Target Profile Other Details: ${describeCustomFields(targetProfile)}` : ''}
 
     POTENTIAL CONNECTIONS:
-    ${JSON.stringify(context.slice(0, 30), null, 2)}
+    ${JSON.stringify(context, null, 2)}
 
     For each suggestion, provide:
     1. The "id"
@@ -232,21 +496,22 @@ export async function getSuggestedConnections(
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              reason: { type: Type.STRING }
-            },
-            required: ["id", "reason"]
-          }
+    const response = await generate({
+      operation: 'suggest_connections',
+      prompt,
+      input: {
+        target: { id: targetProfile.id, name: targetProfile.name, skills: targetProfile.skills || [] },
+        candidates: context
+      },
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            reason: { type: Type.STRING }
+          },
+          required: ["id", "reason"]
         }
       }
     });
@@ -263,19 +528,17 @@ export async function inferFromTitle(title: string, company: string): Promise<Fa
   }
   const prompt = `Provide typical responsibilities and skills for: ${title} at ${company}`;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            typical_responsibilities: { type: Type.STRING },
-            typical_skills: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ["typical_responsibilities", "typical_skills"]
-        }
+    const response = await generate({
+      operation: 'infer_from_title',
+      prompt,
+      input: { title, company },
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          typical_responsibilities: { type: Type.STRING },
+          typical_skills: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["typical_responsibilities", "typical_skills"]
       }
     });
     return JSON.parse(response.text.trim()) as FallbackResult;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fnv1a, fnv1aHash, profileId, withUniqueIds } from './ids';
+import { Profile } from '../types';
+
+const profile = (id: string): Profile => ({ id, name: id, title: '', company: '', enrichment_status: 'pending', enrichment_source: 'none' });
+
+describe('fnv1a', () => {
+  it('matches the reference 32-bit FNV-1a values', () => {
+    expect(fnv1aHash('')).toBe(0x811c9dc5);
+    expect(fnv1aHash('a')).toBe(0xe40c292c);
+    expect(fnv1a('a')).toBe((0xe40c292c).toString(36));
+  });
+});
+
+describe('profileId', () => {
+  it('uses the LinkedIn slug when there is one', () => {
+    expect(profileId({ name: 'Jane Doe', company: 'Acme', linkedin_url: 'https://uk.linkedin.com/in/Jane-Doe/' })).toBe('li-jane-doe');
+  });
+
+  it('ignores case and spacing in name, company and email', () => {
+    const a = profileId({ name: 'Jane  Doe', company: 'Acme ', email: 'JANE@acme.com' });
+    const b = profileId({ name: 'jane doe', company: 'acme', email: 'jane@acme.com' });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^p-[0-9a-z]+$/);
+  });
+
+  it('tells different people apart', () => {
+    expect(profileId({ name: 'Jane Doe', company: 'Acme' })).not.toBe(profileId({ name: 'Jane Doe', company: 'Beta' }));
+  });
+});
+
+describe('withUniqueIds', () => {
+  it('suffixes collisions in order and leaves unique ids alone', () => {
+    const ids = withUniqueIds([profile('a'), profile('b'), profile('a'), profile('a')]).map(p => p.id);
+    expect(ids).toEqual(['a', 'b', 'a-2', 'a-3']);
+  });
+
+  it('avoids ids that are already taken', () => {
+    expect(withUniqueIds([profile('a')], ['a', 'a-2']).map(p => p.id)).toEqual(['a-3']);
+  });
+
+  it('returns the same objects when nothing changes', () => {
+    const list = [profile('a'), profile('b')];
+    expect(withUniqueIds(list)[1]).toBe(list[1]);
+  });
+});
@@ -0,0 +1,41 @@
+
+import { Profile } from "../types";
+import { linkedinSlug } from "./linkedin";
+
+// 32-bit FNV-1a; stable across sessions and browsers, which is all an id needs.
+export function fnv1aHash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+export const fnv1a = (value: string): string => fnv1aHash(value).toString(36);
+
+const norm = (v?: string) => (v || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Deterministic id for a person: their LinkedIn slug when known, otherwise a hash of name, company and email.
+ * The same row imported again (or restored from an export) gets the same id.
+ */
+export function profileId(p: Pick<Profile, 'name' | 'company' | 'email' | 'linkedin_url'>): string {
+  const slug = linkedinSlug(p.linkedin_url);
+  if (slug) return `li-${slug}`;
+  return `p-${fnv1a(`${norm(p.name)}|${norm(p.company)}|${norm(p.email)}`)}`;
+}
+
+/**
+ * Suffixes ids that collide with `taken` or with each other (-2, -3, ...), keeping order.
+ * Duplicates stay separate records so the dedupe step can decide how to merge them.
+ */
+export function withUniqueIds(profiles: Profile[], taken: Iterable<string> = []): Profile[] {
+  const used = new Set(taken);
+  return profiles.map(p => {
+    let id = p.id;
+    for (let n = 2; used.has(id); n++) id = `${p.id}-${n}`;
+    used.add(id);
+    return id === p.id ? p : { ...p, id };
+  });
+}
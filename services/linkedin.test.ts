@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalLinkedInUrl, linkedInWarning, linkedinSlug, parseLinkedInUrl } from './linkedin';
+
+describe('parseLinkedInUrl', () => {
+  it.each([
+    ['https://www.linkedin.com/in/jane-doe', 'jane-doe'],
+    ['http://uk.linkedin.com/in/Jane-Doe/', 'jane-doe'],
+    ['linkedin.com/in/jane-doe?utm_source=share#about', 'jane-doe'],
+    ['https://m.linkedin.com/in/jane-doe', 'jane-doe'],
+    ['https://www.linkedin.com/mwlite/in/jane-doe', 'jane-doe'],
+    ['/in/jane-doe', 'jane-doe'],
+    ['@jane-doe', 'jane-doe'],
+    ['"https://www.linkedin.com/in/jane-doe"', 'jane-doe'],
+    ['My profile: www.linkedin.com/in/jane-doe thanks', 'jane-doe']
+  ])('canonicalizes %s', (raw, slug) => {
+    expect(parseLinkedInUrl(raw)).toEqual({ kind: 'profile', slug, url: `https://www.linkedin.com/in/${slug}` });
+  });
+
+  it('maps legacy /pub/ paths to the /in/ slug', () => {
+    expect(linkedinSlug('https://www.linkedin.com/pub/jane-doe/12/34/567')).toBe('jane-doe-5673412');
+  });
+
+  it('decodes percent-escaped slugs and survives malformed escapes', () => {
+    expect(linkedinSlug('https://www.linkedin.com/in/j%C3%B6rg-m')).toBe('jörg-m');
+    expect(linkedinSlug('https://www.linkedin.com/in/bad%E0%A4%A')).toBe('bad%e0%a4%a');
+  });
+
+  it('classifies non-profile links', () => {
+    expect(parseLinkedInUrl('https://www.linkedin.com/company/acme')?.kind).toBe('company');
+    expect(parseLinkedInUrl('https://www.linkedin.com/feed/')?.kind).toBe('other_linkedin');
+    expect(parseLinkedInUrl('https://lnkd.in/abc123')?.kind).toBe('other_linkedin');
+    expect(parseLinkedInUrl('https://example.com/jane')?.kind).toBe('not_linkedin');
+  });
+
+  it('returns null for blanks and placeholder answers', () => {
+    expect(parseLinkedInUrl('')).toBeNull();
+    expect(parseLinkedInUrl(undefined)).toBeNull();
+    expect(parseLinkedInUrl('none')).toBeNull();
+    expect(parseLinkedInUrl('no')).toBeNull();
+  });
+});
+
+describe('canonicalLinkedInUrl', () => {
+  it('is stable when applied twice', () => {
+    const once = canonicalLinkedInUrl('uk.linkedin.com/in/Jane-Doe?trk=x');
+    expect(canonicalLinkedInUrl(once)).toBe(once);
+  });
+
+  it('only returns profile URLs', () => {
+    expect(canonicalLinkedInUrl('https://www.linkedin.com/company/acme')).toBeUndefined();
+  });
+});
+
+describe('linkedInWarning', () => {
+  it('explains why a value is not a profile', () => {
+    expect(linkedInWarning('https://www.linkedin.com/in/jane')).toBeNull();
+    expect(linkedInWarning('')).toBeNull();
+    expect(linkedInWarning('not a url at all')).toBe('Not a URL');
+    expect(linkedInWarning('https://www.linkedin.com/school/mit')).toBe('Company or school page, not a person');
+  });
+});
@@ -0,0 +1,99 @@
+
+export type LinkedInUrlKind = 'profile' | 'company' | 'other_linkedin' | 'not_linkedin';
+
+export interface LinkedInUrl {
+  kind: LinkedInUrlKind;
+  // Lowercased public identifier; empty unless `kind` is 'profile'.
+  slug: string;
+  // Canonical https://www.linkedin.com/in/<slug> for profiles, otherwise the URL as found.
+  url: string;
+}
+
+const URL_IN_TEXT = /(?:https?:\/\/|www\.)[^\s\]"'<>]+|(?:(?:[a-z]{2,3}\.|m\.|mobile\.)?linkedin\.com|lnkd\.in)\/[^\s\]"'<>]+/i;
+const BARE_SLUG = /^@?([a-z0-9][a-z0-9_%-]{2,99})$/i;
+// Form answers that fit the slug shape but are not handles.
+const NOT_SLUGS = new Set(['none', 'null', 'undefined', 'unknown', 'yes', 'no', 'n-a', 'na', 'nil', 'linkedin']);
+const COMPANY_PATHS = new Set(['company', 'school', 'showcase', 'groups']);
+
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug).toLowerCase();
+  } catch {
+    return slug.toLowerCase();
+  }
+}
+
+function profile(slug: string): LinkedInUrl {
+  const clean = decodeSlug(slug);
+  return { kind: 'profile', slug: clean, url: `https://www.linkedin.com/in/${encodeURIComponent(clean)}` };
+}
+
+/**
+ * Classifies and canonicalizes anything a spreadsheet cell may hold for a LinkedIn profile:
+ * country subdomains, m./mobile links, /mwlite/, legacy /pub/ paths, query strings,
+ * "/in/slug" fragments and bare slugs. Returns null when there is nothing URL-like.
+ */
+export function parseLinkedInUrl(raw?: string): LinkedInUrl | null {
+  const value = (raw || '').trim().replace(/^["'<]+|["'>]+$/g, '');
+  if (!value) return null;
+
+  const pathOnly = value.match(/^\/?(in|pub)\/([^/?#\s]+)/i);
+  if (pathOnly) return profile(pathOnly[2]);
+
+  const found = value.match(URL_IN_TEXT)?.[0];
+  if (!found) {
+    const bare = value.match(BARE_SLUG);
+    return bare && !NOT_SLUGS.has(bare[1].toLowerCase()) ? profile(bare[1]) : null;
+  }
+
+  const withoutScheme = found.replace(/^https?:\/\//i, '');
+  const [host, ...rest] = withoutScheme.split('/');
+  const hostname = host.toLowerCase();
+  if (!/(^|\.)linkedin\.com$/.test(hostname) && hostname !== 'lnkd.in') {
+    return { kind: 'not_linkedin', slug: '', url: /^https?:\/\//i.test(found) ? found : `https://${found}` };
+  }
+
+  const segments = rest.join('/').replace(/[?#].*$/, '').split('/').filter(Boolean);
+  // Mobile web links are prefixed, e.g. /mwlite/in/<slug>.
+  if (segments[0] === 'mwlite' || segments[0] === 'm') segments.shift();
+  const [section, slug, ...tail] = segments;
+
+  if (hostname !== 'lnkd.in' && slug) {
+    if (section === 'in') return profile(slug);
+    if (section === 'pub') {
+      // Legacy /pub/<name>/<a>/<b>/<c> maps to /in/<name>-<c><b><a>.
+      const ids = tail.filter(t => /^[0-9a-z]+$/i.test(t)).slice(0, 3);
+      return profile(ids.length === 3 ? `${slug}-${ids.reverse().join('')}` : slug);
+    }
+    if (COMPANY_PATHS.has(section)) {
+      return { kind: 'company', slug: '', url: `https://www.linkedin.com/${section}/${slug}` };
+    }
+  }
+  return { kind: 'other_linkedin', slug: '', url: `https://${withoutScheme}` };
+}
+
+export function linkedinSlug(raw?: string): string {
+  return parseLinkedInUrl(raw)?.slug || '';
+}
+
+/**
+ * Canonical profile URL, or undefined when the value is not a LinkedIn profile.
+ */
+export function canonicalLinkedInUrl(raw?: string): string | undefined {
+  const parsed = parseLinkedInUrl(raw);
+  return parsed?.kind === 'profile' ? parsed.url : undefined;
+}
+
+/**
+ * Short reason a value was rejected as a profile URL, for flagging in the UI.
+ */
+export function linkedInWarning(raw?: string): string | null {
+  const parsed = parseLinkedInUrl(raw);
+  if (!parsed && (raw || '').trim()) return 'Not a URL';
+  if (!parsed || parsed.kind === 'profile') return null;
+  return {
+    company: 'Company or school page, not a person',
+    other_linkedin: 'LinkedIn link that is not a profile',
+    not_linkedin: 'Not a LinkedIn URL'
+  }[parsed.kind];
+}
@@ -0,0 +1,108 @@
+
+import { Schema } from "@google/genai";
+import { GroundingLink } from "../types";
+import { createGeminiProvider } from "./providers/gemini";
+import { createOpenAIProvider } from "./providers/openai";
+import { createMockProvider } from "./providers/mock";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * The operations the app asks a model to perform. Providers that do not call a
+ * real model (the mock) dispatch on this instead of parsing the prompt.
+ */
+export type LLMOperation =
+  | 'identify_role'
+  | 'enrich'
+  | 'recommend'
+  | 'converse'
+  | 'insights'
+  | 'suggest_connections'
+  | 'infer_from_title';
+
+export interface GenerateRequest {
+  operation: LLMOperation;
+  prompt: string;
+  // Gemini-style response schema; other providers translate it as needed.
+  schema?: Schema;
+  webSearch?: boolean;
+  // Structured inputs the prompt was built from.
+  input?: Record<string, unknown>;
+}
+
+// A span of the response backed by search results.
+export interface GroundingSupport {
+  text: string;
+  // Indices into `grounding_urls`.
+  sources: number[];
+  confidence?: number;
+}
+
+export interface GenerateResponse {
+  text: string;
+  grounding_urls: GroundingLink[];
+  grounding_supports?: GroundingSupport[];
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1',
+  mock: 'fixtures'
+};
+
+/**
+ * Reads provider settings injected by vite.config.ts.
+ */
+export function configFromEnv(): ProviderConfig {
+  const requested = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const provider: ProviderId = requested === 'openai' || requested === 'mock' ? requested : 'gemini';
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL || undefined
+  };
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider({ model, apiKey: config.apiKey, baseUrl: config.baseUrl || 'http://localhost:11434/v1' });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider({ model, apiKey: config.apiKey });
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export function getProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(configFromEnv());
+  }
+  return activeProvider;
+}
+
+export function setProvider(provider: LLMProvider) {
+  activeProvider = provider;
+}
+
+export function generate(request: GenerateRequest): Promise<GenerateResponse> {
+  return getProvider().generate(request);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildProvenance, inferredProvenance } from './provenance';
+
+const result = {
+  region: 'Austin, TX',
+  background: 'Led platform engineering at Acme before founding Beta.',
+  skills: ['Go', 'Kubernetes']
+};
+
+describe('buildProvenance', () => {
+  it('matches supports to the field whose value contains the span', () => {
+    const provenance = buildProvenance(result, [
+      { text: 'platform engineering at Acme', sources: [2, 0], confidence: 0.9 },
+      { text: 'Kubernetes', sources: [1], confidence: 0.7 }
+    ]);
+    expect(provenance.background).toEqual({ confidence: 0.9, sources: [0, 2], inferred: false });
+    expect(provenance.skills).toEqual({ confidence: 0.7, sources: [1], inferred: false });
+  });
+
+  it('matches spans of the raw JSON by field key', () => {
+    const provenance = buildProvenance(result, [{ text: '"region": "Austin, Texas"', sources: [0], confidence: 0.8 }]);
+    expect(provenance.region).toMatchObject({ sources: [0], inferred: false });
+  });
+
+  it('ignores supports without sources and fields without values', () => {
+    const provenance = buildProvenance(result, [
+      { text: 'Austin', sources: [] },
+      { text: 'achievements', sources: [0], confidence: 1 }
+    ]);
+    expect(provenance.region?.inferred).toBe(true);
+    expect(provenance.achievements).toBeUndefined();
+  });
+
+  it('caps the confidence of unsourced fields', () => {
+    const provenance = buildProvenance(result, [], { region: 0.95, skills: 0.2 });
+    expect(provenance.region).toEqual({ confidence: 0.5, sources: [], inferred: true });
+    expect(provenance.skills?.confidence).toBe(0.2);
+    expect(provenance.background?.confidence).toBe(0.5);
+  });
+
+  it('averages the confidence of the supporting sources', () => {
+    const provenance = buildProvenance(result, [
+      { text: 'Go', sources: [0], confidence: 0.9 },
+      { text: 'Kubernetes', sources: [1], confidence: 0.6 },
+      { text: 'Go, Kubernetes', sources: [1] }
+    ], { skills: 0.1 });
+    expect(provenance.skills?.confidence).toBeCloseTo(0.75);
+    expect(provenance.skills?.sources).toEqual([0, 1]);
+  });
+
+  it("falls back to the model's estimate when no support is scored", () => {
+    const provenance = buildProvenance(result, [{ text: 'Kubernetes', sources: [0] }], { skills: 0.85 });
+    expect(provenance.skills).toEqual({ confidence: 0.85, sources: [0], inferred: false });
+  });
+});
+
+describe('inferredProvenance', () => {
+  it('marks every field as inferred', () => {
+    expect(inferredProvenance(['skills'])).toEqual({ skills: { confidence: 0.3, sources: [], inferred: true } });
+  });
+});
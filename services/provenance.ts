@@ -0,0 +1,70 @@
+
+import { FieldProvenance, ProvenanceField } from "../types";
+import { GroundingSupport } from "./llm";
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = ['years_of_experience', 'region', 'background', 'what_they_do', 'achievements', 'skills'];
+
+// Unsourced claims are never shown as more than a coin flip, whatever the model says.
+const MAX_INFERRED_CONFIDENCE = 0.5;
+
+// Spans may come from the raw JSON, so escape sequences are dropped before comparing.
+const normalize = (text: string) => text.toLowerCase().replace(/\\./g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+function fieldText(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * The field a supported span belongs to: the one whose value contains it,
+ * or whose key appears in it when the span covers the raw JSON.
+ */
+function fieldForSupport(support: GroundingSupport, values: Record<ProvenanceField, string>): ProvenanceField | null {
+  const text = normalize(support.text);
+  if (!text) return null;
+  const byValue = PROVENANCE_FIELDS.find(f => values[f] && normalize(values[f]).includes(text));
+  if (byValue) return byValue;
+  return PROVENANCE_FIELDS.find(f => support.text.includes(`"${f}"`)) || null;
+}
+
+/**
+ * Links each enriched field to the grounding sources that support it.
+ * `modelConfidence` is the model's own 0-1 estimate per field, used when no source backs a field.
+ */
+export function buildProvenance(
+  result: Partial<Record<ProvenanceField, unknown>>,
+  supports: GroundingSupport[] = [],
+  modelConfidence: Partial<Record<ProvenanceField, number>> = {}
+): Partial<Record<ProvenanceField, FieldProvenance>> {
+  const values = Object.fromEntries(PROVENANCE_FIELDS.map(f => [f, fieldText(result[f])])) as Record<ProvenanceField, string>;
+  const matched = new Map<ProvenanceField, GroundingSupport[]>();
+  supports.forEach(s => {
+    const field = fieldForSupport(s, values);
+    if (field && s.sources.length > 0) matched.set(field, [...(matched.get(field) || []), s]);
+  });
+
+  const provenance: Partial<Record<ProvenanceField, FieldProvenance>> = {};
+  PROVENANCE_FIELDS.forEach(field => {
+    if (!values[field]) return;
+    const own = Math.min(1, Math.max(0, modelConfidence[field] ?? MAX_INFERRED_CONFIDENCE));
+    const backing = matched.get(field) || [];
+    if (backing.length === 0) {
+      provenance[field] = { confidence: Math.min(own, MAX_INFERRED_CONFIDENCE), sources: [], inferred: true };
+      return;
+    }
+    const scores = backing.map(s => s.confidence).filter((c): c is number => c !== undefined);
+    provenance[field] = {
+      confidence: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : own,
+      sources: Array.from(new Set(backing.flatMap(s => s.sources))).sort((a, b) => a - b),
+      inferred: false
+    };
+  });
+  return provenance;
+}
+
+/**
+ * Provenance for fields guessed from the job title alone.
+ */
+export function inferredProvenance(fields: ProvenanceField[], confidence = 0.3): Partial<Record<ProvenanceField, FieldProvenance>> {
+  return Object.fromEntries(fields.map(f => [f, { confidence, sources: [], inferred: true }]));
+}
@@ -0,0 +1,44 @@
+
+/**
+ * Canned data for the mock provider. Values are picked by hashing the input so
+ * the same person always gets the same result.
+ */
+
+export const ROLE_FIXTURES: Array<{ title: string; company: string; region: string }> = [
+  { title: 'Founder & CEO', company: 'Northwind Labs', region: 'San Francisco Bay Area' },
+  { title: 'Senior Software Engineer', company: 'Contoso', region: 'Seattle, WA' },
+  { title: 'Product Manager', company: 'Fabrikam', region: 'New York, NY' },
+  { title: 'Partner', company: 'Blue Yonder Ventures', region: 'London, UK' },
+  { title: 'Head of Data Science', company: 'Tailspin Health', region: 'Boston, MA' },
+  { title: 'Design Lead', company: 'Litware', region: 'Austin, TX' },
+  { title: 'Growth Marketing Manager', company: 'Adventure Works', region: 'Toronto, Canada' },
+  { title: 'CTO', company: 'Wingtip Climate', region: 'Berlin, Germany' }
+];
+
+export const SKILL_FIXTURES: Array<{ keywords: string[]; skills: string[] }> = [
+  { keywords: ['founder', 'ceo', 'chief'], skills: ['Fundraising', 'Leadership', 'Strategy', 'Hiring', 'Go-to-Market'] },
+  { keywords: ['engineer', 'developer', 'cto', 'architect'], skills: ['TypeScript', 'Distributed Systems', 'Cloud Infrastructure', 'System Design', 'Python'] },
+  { keywords: ['product'], skills: ['Product Strategy', 'Roadmapping', 'User Research', 'Analytics', 'Agile'] },
+  { keywords: ['partner', 'investor', 'ventures', 'capital'], skills: ['Venture Capital', 'Due Diligence', 'Portfolio Management', 'Fintech', 'Board Governance'] },
+  { keywords: ['data', 'scientist', 'ml', 'ai'], skills: ['Machine Learning', 'Statistics', 'Python', 'SQL', 'Experimentation'] },
+  { keywords: ['design', 'ux', 'ui'], skills: ['Product Design', 'Figma', 'Design Systems', 'Prototyping', 'User Research'] },
+  { keywords: ['marketing', 'growth', 'sales'], skills: ['Growth Marketing', 'SEO', 'Lifecycle Marketing', 'Content Strategy', 'Analytics'] }
+];
+
+export const DEFAULT_SKILLS = ['Communication', 'Project Management', 'Stakeholder Management', 'Problem Solving', 'Networking'];
+
+export const ACHIEVEMENT_FIXTURES = [
+  'Speaker at several industry conferences.',
+  'Led a team through a successful acquisition.',
+  'Recognized on a regional "40 Under 40" list.',
+  'Published articles on industry best practices.',
+  'No public awards found.'
+];
+
+export const EDUCATION_FIXTURES: Array<{ school: string; degree: string; field: string }> = [
+  { school: 'Stanford University', degree: 'BSc', field: 'Computer Science' },
+  { school: 'University of Michigan', degree: 'MBA', field: 'Business Administration' },
+  { school: 'ETH Zurich', degree: 'PhD', field: 'Machine Learning' },
+  { school: 'University of Toronto', degree: 'BA', field: 'Economics' },
+  { school: 'Rhode Island School of Design', degree: 'BFA', field: 'Industrial Design' }
+];
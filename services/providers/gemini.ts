@@ -0,0 +1,81 @@
+
+import { GoogleGenAI } from "@google/genai";
+import { GroundingLink } from "../../types";
+import { GenerateRequest, GenerateResponse, GroundingSupport, LLMProvider } from "../llm";
+import { EmbeddingProvider } from "../embeddings";
+
+/**
+ * Google Gemini provider. Supports Google Search grounding.
+ */
+export function createGeminiProvider(options: { model: string; apiKey?: string }): LLMProvider {
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    if (!ai) ai = new GoogleGenAI({ apiKey: options.apiKey });
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${options.model})`,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      const response = await client().models.generateContent({
+        model: options.model,
+        contents: request.prompt,
+        config: {
+          ...(request.webSearch ? { tools: [{ googleSearch: {} }] } : {}),
+          ...(request.schema ? { responseMimeType: "application/json", responseSchema: request.schema } : {})
+        }
+      });
+
+      const groundingUrls: GroundingLink[] = [];
+      // Chunk index -> position in groundingUrls, since non-web chunks are skipped.
+      const urlIndex = new Map<number, number>();
+      const metadata = response.candidates?.[0]?.groundingMetadata;
+      const chunks = metadata?.groundingChunks;
+      if (chunks) {
+        chunks.forEach((chunk, i) => {
+          if (chunk.web && chunk.web.uri) {
+            urlIndex.set(i, groundingUrls.length);
+            groundingUrls.push({ uri: chunk.web.uri, title: chunk.web.title || "Source" });
+          }
+        });
+      }
+
+      const supports: GroundingSupport[] = (metadata?.groundingSupports || [])
+        .filter(s => s.segment?.text)
+        .map(s => {
+          const scores = s.confidenceScores || [];
+          return {
+            text: s.segment?.text || '',
+            sources: (s.groundingChunkIndices || []).map(i => urlIndex.get(i)).filter((i): i is number => i !== undefined),
+            confidence: scores.length > 0 ? Math.max(...scores) : undefined
+          };
+        });
+
+      return { text: response.text || '', grounding_urls: groundingUrls, grounding_supports: supports };
+    }
+  };
+}
+
+/**
+ * Gemini embedding models (e.g. text-embedding-004).
+ */
+export function createGeminiEmbedder(options: { model: string; apiKey?: string }): EmbeddingProvider {
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    if (!ai) ai = new GoogleGenAI({ apiKey: options.apiKey });
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${options.model})`,
+    model: `gemini:${options.model}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      const response = await client().models.embedContent({ model: options.model, contents: texts });
+      const vectors = (response.embeddings || []).map(e => e.values || []);
+      if (vectors.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+      return vectors;
+    }
+  };
+}
@@ -0,0 +1,43 @@
+
+import { EmbeddingProvider } from "../embeddings";
+import { fnv1aHash } from "../ids";
+
+const DIMENSIONS = 512;
+
+// Word features carry the meaning; character trigrams let "engineer" and "engineering" overlap.
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+function embedText(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  // The top bit picks the sign, so colliding features tend to cancel rather than pile up.
+  const add = (feature: string, weight: number) => {
+    const h = fnv1aHash(feature);
+    vector[h % DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * weight;
+  };
+  const words = text.toLowerCase().split(/[^a-z0-9+#]+/).filter(w => w.length > 1);
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+    const padded = `^${word}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/**
+ * Offline embedder using the hashing trick over words, word pairs and character trigrams.
+ * Captures shared vocabulary rather than meaning, but needs no network or model download.
+ */
+export function createLocalEmbedder(): EmbeddingProvider {
+  return {
+    id: 'local',
+    label: 'Local (hashed n-grams)',
+    model: `local:hash-${DIMENSIONS}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(embedText);
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mock';
+import { configFromEnv, generate, GenerateRequest, setProvider } from '../llm';
+
+const mock = createMockProvider();
+const ask = async (request: Omit<GenerateRequest, 'prompt'>) => {
+  const response = await mock.generate({ prompt: 'test', ...request });
+  return { ...response, result: JSON.parse(response.text) };
+};
+
+describe('mock provider', () => {
+  it('answers the same input the same way', async () => {
+    const a = await ask({ operation: 'enrich', input: { name: 'Jane Doe', title: 'CTO', company: 'Acme' } });
+    const b = await ask({ operation: 'enrich', input: { name: 'Jane Doe', title: 'CTO', company: 'Acme' } });
+    expect(a.result).toEqual(b.result);
+    expect(a.result.what_they_do).toContain('Acme');
+  });
+
+  it('only returns identity candidates for names without a LinkedIn URL or company', async () => {
+    const names = Array.from({ length: 12 }, (_, i) => `Person ${i}`);
+    const answers = await Promise.all(names.map(name => ask({ operation: 'identify_role', input: { name } })));
+    const ambiguous = names.filter((_, i) => answers[i].result.candidates.length > 0);
+    expect(ambiguous.length).toBeGreaterThan(0);
+    expect(ambiguous.length).toBeLessThan(names.length);
+
+    const pinned = await ask({ operation: 'identify_role', input: { name: ambiguous[0], linkedinUrl: 'https://www.linkedin.com/in/x' } });
+    expect(pinned.result).toMatchObject({ confidence: 0.9, candidates: [] });
+    const withCompany = await ask({ operation: 'identify_role', input: { name: ambiguous[0], company: 'Acme' } });
+    expect(withCompany.result.candidates).toEqual([]);
+  });
+
+  it('grounds the role and region of web-searched enrichments only', async () => {
+    const searched = await ask({ operation: 'enrich', webSearch: true, input: { name: 'Jane Doe' } });
+    expect(searched.grounding_urls).toHaveLength(1);
+    expect(searched.grounding_supports?.map(s => s.text)).toEqual([searched.result.what_they_do, searched.result.region]);
+
+    const offline = await ask({ operation: 'enrich', input: { name: 'Jane Doe' } });
+    expect(offline.grounding_urls).toEqual([]);
+    expect(offline.grounding_supports).toBeUndefined();
+  });
+
+  it('ranks recommendations by query overlap and drops non-matches', async () => {
+    const { result } = await ask({
+      operation: 'recommend',
+      input: {
+        query: 'climate fintech founders',
+        profiles: [
+          { id: 'a', info: 'Founder of a fintech startup' },
+          { id: 'b', info: 'Climate fintech founder' },
+          { id: 'c', info: 'Pastry chef' }
+        ]
+      }
+    });
+    expect(result.map((r: { id: string }) => r.id)).toEqual(['b', 'a']);
+  });
+
+  it('narrows the current results and explains named people in conversation', async () => {
+    const profiles = [
+      { id: 'a', name: 'Ann Lee', info: 'fintech founder', in_current_results: true },
+      { id: 'b', name: 'Bob Roe', info: 'climate researcher', in_current_results: true },
+      { id: 'c', name: 'Cy Twombly', info: 'fintech investor', in_current_results: false }
+    ];
+    const narrowed = await ask({ operation: 'converse', input: { message: 'only the fintech ones', profiles } });
+    expect(narrowed.result).toMatchObject({ action: 'narrow', results: [{ id: 'a' }] });
+
+    const explained = await ask({ operation: 'converse', input: { message: 'why not Cy?', profiles } });
+    expect(explained.result.action).toBe('explain');
+    expect(explained.result.reply).toContain('[[c]]');
+  });
+
+  it('tolerates missing or mistyped inputs', async () => {
+    const { result } = await ask({ operation: 'recommend', input: { query: 42, profiles: 'none' } });
+    expect(result).toEqual([]);
+    const insights = await mock.generate({ prompt: '', operation: 'insights' });
+    expect(insights.text).toContain('0 profiles');
+  });
+});
+
+describe('provider selection', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('reads the provider from the environment and falls back to Gemini', () => {
+    vi.stubEnv('LLM_PROVIDER', 'MOCK');
+    expect(configFromEnv().provider).toBe('mock');
+    vi.stubEnv('LLM_PROVIDER', 'something-else');
+    expect(configFromEnv().provider).toBe('gemini');
+  });
+
+  it('routes generate() through the active provider', async () => {
+    setProvider(mock);
+    const response = await generate({ operation: 'infer_from_title', prompt: '', input: { title: 'Data Scientist' } });
+    expect(JSON.parse(response.text).typical_responsibilities).toContain('Data Scientist');
+  });
+});
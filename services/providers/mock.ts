@@ -0,0 +1,189 @@
+
+import { GenerateRequest, GenerateResponse, LLMProvider } from "../llm";
+import { ACHIEVEMENT_FIXTURES, DEFAULT_SKILLS, EDUCATION_FIXTURES, ROLE_FIXTURES, SKILL_FIXTURES } from "./fixtures";
+
+const MOCK_LATENCY_MS = 150;
+
+function hash(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return h;
+}
+
+function pick<T>(list: T[], key: string): T {
+  return list[hash(key) % list.length];
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(t => t.length > 2);
+}
+
+// Follow-up phrasing the mock ignores when matching chat messages against profiles.
+const CHAT_FILLER = new Set(['now', 'only', 'just', 'the', 'ones', 'those', 'them', 'who', 'are', 'with', 'and', 'show', 'find', 'people', 'narrow', 'why', 'not', 'also', 'any', 'for']);
+
+function skillsFor(title: string): string[] {
+  const t = title.toLowerCase();
+  const match = SKILL_FIXTURES.find(f => f.keywords.some(k => t.includes(k)));
+  return match ? match.skills : DEFAULT_SKILLS;
+}
+
+// Inputs come from the app's own prompt builders, so a wrong type just reads as missing.
+const text = (value: unknown): string => typeof value === 'string' ? value : '';
+const list = <T>(value: unknown): T[] => Array.isArray(value) ? value : [];
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function respond(request: GenerateRequest): unknown {
+  const input = request.input || {};
+
+  switch (request.operation) {
+    case 'identify_role': {
+      const name = text(input.name);
+      const role = pick(ROLE_FIXTURES, name);
+      // Every third name without a LinkedIn URL or company is "common" and comes back ambiguous.
+      if (input.linkedinUrl || input.company || hash(name) % 3 !== 0) {
+        return { ...role, confidence: 0.9, candidates: [] };
+      }
+      const start = hash(name) % ROLE_FIXTURES.length;
+      const candidates = [0, 1, 2].map(offset => {
+        const alt = ROLE_FIXTURES[(start + offset) % ROLE_FIXTURES.length];
+        return { ...alt, linkedin_url: '', evidence: `A ${name} is listed as ${alt.title} at ${alt.company} (${alt.region}).`, confidence: 0.45 - offset * 0.1 };
+      });
+      return { ...role, confidence: 0.45, candidates };
+    }
+
+    case 'enrich': {
+      const name = text(input.name) || 'Unknown';
+      const role = pick(ROLE_FIXTURES, name);
+      const title = text(input.title) || role.title;
+      const company = text(input.company) || role.company;
+      const years = 2 + (hash(name) % 18);
+      const thisYear = new Date().getFullYear();
+      const previous = ROLE_FIXTURES[(hash(name) + 1) % ROLE_FIXTURES.length];
+      const switchedAt = thisYear - Math.ceil(years / 3);
+      return {
+        years_of_experience: String(years),
+        region: role.region,
+        background: `${name} has spent ${years} years working across startups and established companies. Currently ${title} at ${company}.`,
+        what_they_do: `Leads ${title.toLowerCase()} responsibilities at ${company}.`,
+        achievements: pick(ACHIEVEMENT_FIXTURES, name),
+        skills: skillsFor(title),
+        positions: [
+          { title, company, start: String(switchedAt) },
+          { title: previous.title, company: previous.company, start: String(thisYear - years), end: String(switchedAt) }
+        ],
+        education: [pick(EDUCATION_FIXTURES, name)],
+        experience_range: { min: years, max: years + 1 },
+        is_valid: true,
+        confidence: { years_of_experience: 0.4, region: 0.7, background: 0.8, what_they_do: 0.6, achievements: 0.3, skills: 0.6 }
+      };
+    }
+
+    case 'recommend': {
+      const queryTokens = tokenize(text(input.query));
+      const profiles = list<{ id: string; info: string }>(input.profiles);
+      return profiles
+        .map(p => {
+          const info = tokenize(p.info);
+          const hits = queryTokens.filter(t => info.includes(t));
+          return { id: p.id, score: queryTokens.length ? Math.round((hits.length / queryTokens.length) * 100) : 0, hits };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 20)
+        .map(r => ({ id: r.id, score: r.score, reason: `Mentions ${r.hits.slice(0, 3).join(', ')}.` }));
+    }
+
+    case 'converse': {
+      const message = text(input.message).toLowerCase();
+      const profiles = list<{ id: string; name: string; info: string; in_current_results: boolean }>(input.profiles);
+      const current = profiles.filter(p => p.in_current_results);
+      const keywords = tokenize(message).filter(t => !CHAT_FILLER.has(t));
+      const matching = (list: typeof profiles) => list
+        .map(p => ({ p, hits: keywords.filter(k => tokenize(p.info).includes(k)) }))
+        .filter(r => r.hits.length > 0)
+        .sort((a, b) => b.hits.length - a.hits.length)
+        .map(r => ({ id: r.p.id, score: Math.round((r.hits.length / keywords.length) * 100), reason: `Mentions ${r.hits.slice(0, 3).join(', ')}.` }));
+
+      if (/\bwhy\b/.test(message)) {
+        const words = message.split(/[^a-z0-9]+/);
+        const named = profiles.find(p => (p.name || '').toLowerCase().split(/\s+/).some(n => words.includes(n)));
+        if (!named) return { action: 'answer', reply: 'Who do you mean? Mention them by name.', results: [] };
+        return {
+          action: 'explain',
+          reply: named.in_current_results
+            ? `[[${named.id}]] is in the results because their profile matched your earlier requests.`
+            : `[[${named.id}]] is not in the results: their profile does not mention what you asked for.`,
+          results: []
+        };
+      }
+      if (current.length > 0 && /\b(only|just|narrow|those|them|ones)\b/.test(message)) {
+        const kept = matching(current);
+        return { action: 'narrow', reply: `Kept ${kept.length} of ${current.length}: ${kept.slice(0, 5).map(r => `[[${r.id}]]`).join(', ') || 'no one'}.`, results: kept };
+      }
+      const found = matching(profiles).slice(0, 20);
+      return { action: 'search', reply: `Found ${found.length} people: ${found.slice(0, 5).map(r => `[[${r.id}]]`).join(', ') || 'no one'}.`, results: found };
+    }
+
+    case 'insights': {
+      const profiles = list<{ company?: string; skills?: string[] }>(input.profiles);
+      const counts = new Map<string, number>();
+      profiles.forEach(p => (p.skills || []).forEach(s => counts.set(s, (counts.get(s) || 0) + 1)));
+      const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 5);
+      const companies = new Set(profiles.map(p => p.company).filter(Boolean));
+      return [
+        '### Common Themes',
+        ...top.map(([skill, n]) => `- **${skill}** appears in ${n} profiles.`),
+        '### Group Snapshot',
+        `- ${profiles.length} profiles across ${companies.size} companies.`,
+        '- _Generated by the offline mock provider._'
+      ].join('\n');
+    }
+
+    case 'suggest_connections': {
+      const targetSkills = list<string>(isRecord(input.target) ? input.target.skills : undefined);
+      const candidates = list<{ id: string; skills?: string[] }>(input.candidates);
+      return candidates
+        .map(c => ({ id: c.id, shared: (c.skills || []).filter(s => targetSkills.includes(s)) }))
+        .sort((a, b) => b.shared.length - a.shared.length)
+        .slice(0, 3)
+        .map(c => ({
+          id: c.id,
+          reason: c.shared.length ? `Shared focus on ${c.shared.slice(0, 2).join(' and ')}.` : 'Complementary background.'
+        }));
+    }
+
+    case 'infer_from_title':
+      return {
+        typical_responsibilities: `Typical duties of a ${text(input.title) || 'professional'}${input.company ? ` at ${text(input.company)}` : ''}.`,
+        typical_skills: skillsFor(text(input.title))
+      };
+  }
+}
+
+/**
+ * Deterministic offline provider backed by fixtures. Never touches the network.
+ */
+export function createMockProvider(): LLMProvider {
+  return {
+    id: 'mock',
+    label: 'Mock (offline fixtures)',
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+      const result = respond(request);
+      const enriched = request.operation === 'enrich' && isRecord(result) ? result : null;
+      return {
+        text: typeof result === 'string' ? result : JSON.stringify(result),
+        grounding_urls: request.webSearch
+          ? [{ uri: `https://example.com/mock/${hash(request.prompt)}`, title: 'Mock Source' }]
+          : [],
+        // The mock "finds" the current role and region; everything else stays unsourced.
+        grounding_supports: request.webSearch && enriched
+          ? [{ text: text(enriched.what_they_do), sources: [0], confidence: 0.9 }, { text: text(enriched.region), sources: [0], confidence: 0.75 }]
+          : undefined
+      };
+    }
+  };
+}
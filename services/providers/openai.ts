@@ -0,0 +1,108 @@
+
+import { Schema } from "@google/genai";
+import { GenerateRequest, GenerateResponse, LLMProvider } from "../llm";
+import { EmbeddingProvider } from "../embeddings";
+
+/**
+ * Converts a Gemini response schema (upper-case `Type` values) to JSON Schema.
+ */
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    out.required = schema.required || Object.keys(schema.properties);
+    out.additionalProperties = false;
+  }
+  return out;
+}
+
+/**
+ * OpenAI-compatible chat completions provider (OpenAI, Ollama, llama.cpp, vLLM...).
+ * Web search grounding is not available, so `webSearch` requests rely on model knowledge.
+ */
+export function createOpenAIProvider(options: { model: string; apiKey?: string; baseUrl: string }): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${options.model})`,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      const body: Record<string, unknown> = {
+        model: options.model,
+        messages: [{ role: 'user', content: request.prompt }]
+      };
+      if (request.schema) {
+        // Providers reject top-level arrays in strict mode, so wrap them in an object.
+        const isArray = String(request.schema.type).toLowerCase() === 'array';
+        const schema = toJsonSchema(request.schema);
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: request.operation,
+            schema: isArray
+              ? { type: 'object', properties: { items: schema }, required: ['items'], additionalProperties: false }
+              : schema
+          }
+        };
+      }
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI-compatible request failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+      let text: string = data.choices?.[0]?.message?.content || '';
+      if (request.schema && String(request.schema.type).toLowerCase() === 'array') {
+        const parsed = JSON.parse(text);
+        text = JSON.stringify(Array.isArray(parsed) ? parsed : parsed.items || []);
+      }
+
+      return { text, grounding_urls: [] };
+    }
+  };
+}
+
+/**
+ * OpenAI-compatible embeddings endpoint (OpenAI, Ollama, llama.cpp, vLLM...).
+ */
+export function createOpenAIEmbedder(options: { model: string; apiKey?: string; baseUrl: string }): EmbeddingProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${options.model})`,
+    model: `openai:${options.model}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: options.model, input: texts })
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI-compatible embedding request failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+      const rows: Array<{ index: number; embedding: number[] }> = data.data || [];
+      if (rows.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${rows.length}`);
+      return [...rows].sort((a, b) => a.index - b.index).map(r => r.embedding);
+    }
+  };
+}
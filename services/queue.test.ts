@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, createQueueController, createRateLimiter, isRetryableError, QueueState, runQueue } from './queue';
+
+const options = { concurrency: 2, ratePerMinute: 6000, burst: 10, maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+  it('hands out the burst at once, then one token per refill interval', async () => {
+    // 60 per minute: one token a second after the first two.
+    const limiter = createRateLimiter(60, 2);
+    const granted: number[] = [];
+    const start = Date.now();
+    for (let i = 0; i < 4; i++) limiter.acquire().then(() => granted.push(Date.now() - start));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 0]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(granted).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([0, 0, 1000, 2000]);
+  });
+});
+
+describe('isRetryableError', () => {
+  it.each([
+    [{ status: 429 }, true],
+    [{ status: 503 }, true],
+    [{ code: 408 }, true],
+    [{ status: 400 }, false],
+    [{ status: 404, code: 429 }, false],
+    [new Error('RESOURCE_EXHAUSTED: quota exceeded'), true],
+    [new Error('Failed to fetch'), true],
+    [new Error('Invalid JSON in response'), false],
+    ['429 Too Many Requests', true],
+    [null, false]
+  ])('%j -> %s', (error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt within the upper half, up to the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([1, 2, 3, 10].map(a => backoffDelay(a, options))).toEqual([1000, 2000, 4000, 30000]);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3, options)).toBe(2000);
+  });
+});
+
+describe('runQueue', () => {
+  it('keeps at most `concurrency` jobs in flight and reports results in input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done = runQueue([30, 10, 20, 5], async ms => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      inFlight--;
+      return ms * 2;
+    }, options);
+    await vi.runAllTimersAsync();
+    expect(peak).toBe(2);
+    expect((await done).map(o => o.status === 'fulfilled' && o.value)).toEqual([60, 20, 40, 10]);
+  });
+
+  it('retries retryable errors with backoff and gives up after maxRetries', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const retries: number[] = [];
+    const calls = { flaky: 0, down: 0 };
+    const done = runQueue(['flaky', 'down'] as const, async item => {
+      calls[item]++;
+      if (item === 'flaky' && calls.flaky < 3) throw { status: 503 };
+      if (item === 'down') throw { status: 429 };
+      return 'ok';
+    }, { ...options, concurrency: 1 }, { onRetry: (_item, _i, _attempt, _error, delay) => retries.push(delay) });
+    await vi.runAllTimersAsync();
+
+    const [flaky, down] = await done;
+    expect(flaky).toEqual({ status: 'fulfilled', value: 'ok', attempts: 3 });
+    expect(down).toMatchObject({ status: 'rejected', attempts: 4 });
+    expect(retries).toEqual([1000, 2000, 1000, 2000, 4000]);
+  });
+
+  it('does not retry errors that will not go away', async () => {
+    const worker = vi.fn(async () => { throw new Error('Invalid JSON in response'); });
+    const done = runQueue(['a'], worker, options);
+    await vi.runAllTimersAsync();
+    expect(await done).toEqual([expect.objectContaining({ status: 'rejected', attempts: 1 })]);
+    expect(worker).toHaveBeenCalledTimes(1);
+  });
+
+  it('throttles every call a job makes', async () => {
+    const started: number[] = [];
+    const start = Date.now();
+    const done = runQueue([1, 2, 3], async (_item, ctx) => {
+      await ctx.throttle();
+      started.push(Date.now() - start);
+    }, { ...options, concurrency: 3, ratePerMinute: 60, burst: 1 });
+    await vi.runAllTimersAsync();
+    await done;
+    expect(started).toEqual([0, 1000, 2000]);
+  });
+});
+
+describe('queue controller', () => {
+  const slowJob = (started: number[]) => async (item: number) => {
+    started.push(item);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return item;
+  };
+
+  it('lets in-flight jobs finish but starts no new ones while paused', async () => {
+    const controller = createQueueController();
+    const states: QueueState[] = [];
+    controller.subscribe(state => states.push(state));
+    const started: number[] = [];
+    const done = runQueue([1, 2, 3, 4], slowJob(started), { ...options, concurrency: 1 }, {}, controller);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.pause();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([1]);
+
+    controller.resume();
+    await vi.runAllTimersAsync();
+    expect(started).toEqual([1, 2, 3, 4]);
+    expect((await done).every(o => o.status === 'fulfilled')).toBe(true);
+    expect(states).toEqual(['paused', 'running']);
+  });
+
+  it('holds retries while paused', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const controller = createQueueController();
+    let calls = 0;
+    const done = runQueue(['a'], async () => {
+      if (++calls === 1) throw { status: 503 };
+      return 'ok';
+    }, options, {}, controller);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.pause();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(calls).toBe(1);
+    controller.resume();
+    await vi.runAllTimersAsync();
+    expect(await done).toEqual([{ status: 'fulfilled', value: 'ok', attempts: 2 }]);
+  });
+
+  it('resolves right away on cancel and leaves unfinished items skipped', async () => {
+    const controller = createQueueController();
+    const started: number[] = [];
+    const succeeded = vi.fn();
+    const done = runQueue([1, 2, 3], slowJob(started), { ...options, concurrency: 1 }, { onSuccess: succeeded }, controller);
+
+    await vi.advanceTimersByTimeAsync(150);
+    controller.cancel();
+    const outcomes = await done;
+    expect(outcomes.map(o => o.status)).toEqual(['fulfilled', 'skipped', 'skipped']);
+
+    // The abandoned in-flight job finishing later changes nothing.
+    await vi.runAllTimersAsync();
+    expect(started).toEqual([1, 2]);
+    expect(succeeded).toHaveBeenCalledTimes(1);
+    expect(outcomes[1]).toEqual({ status: 'skipped' });
+  });
+
+  it('cancels a paused queue', async () => {
+    const controller = createQueueController();
+    const started: number[] = [];
+    const done = runQueue([1, 2], slowJob(started), { ...options, concurrency: 1 }, {}, controller);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.pause();
+    await vi.advanceTimersByTimeAsync(500);
+    controller.cancel();
+    expect((await done).map(o => o.status)).toEqual(['fulfilled', 'skipped']);
+    expect(controller.state).toBe('cancelled');
+    controller.resume();
+    expect(controller.state).toBe('cancelled');
+  });
+});
@@ -0,0 +1,216 @@
+
+/**
+ * Shared job queue for API-heavy work (role discovery, enrichment).
+ * Runs jobs with bounded concurrency, throttles calls through a token bucket
+ * and retries transient failures with exponential backoff.
+ */
+
+export interface QueueOptions {
+  concurrency: number;
+  ratePerMinute: number;
+  burst: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: Number(process.env.ENRICH_CONCURRENCY) || 4,
+  ratePerMinute: Number(process.env.ENRICH_RATE_PER_MINUTE) || 60,
+  burst: 4,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * Token bucket: holds up to `burst` tokens and refills at `ratePerMinute`.
+ */
+export function createRateLimiter(ratePerMinute: number, burst: number): RateLimiter {
+  const refillPerMs = ratePerMinute / 60000;
+  let tokens = burst;
+  let last = Date.now();
+  let chain: Promise<void> = Promise.resolve();
+
+  const take = async () => {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(burst, tokens + (now - last) * refillPerMs);
+      last = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - tokens) / refillPerMs));
+    }
+  };
+
+  return {
+    // Serialize waiters so tokens are handed out in request order.
+    acquire() {
+      chain = chain.then(take);
+      return chain;
+    }
+  };
+}
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Rate limits, quota errors, timeouts and 5xx responses are worth retrying.
+ */
+export function isRetryableError(error: unknown): boolean {
+  let status: unknown;
+  if (typeof error === 'object' && error !== null) {
+    if ('status' in error) status = error.status;
+    if (status == null && 'code' in error) status = error.code;
+  }
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|rate limit|quota|resource_exhausted|unavailable|timed? ?out|failed to fetch|network/i.test(message);
+}
+
+export function backoffDelay(attempt: number, options: Pick<QueueOptions, 'baseDelayMs' | 'maxDelayMs'>): number {
+  const exp = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter in the upper half keeps parallel workers from retrying in lockstep.
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+export type QueueState = 'running' | 'paused' | 'cancelled';
+
+/**
+ * Pause/resume/cancel handle for a running queue. Pausing lets in-flight jobs
+ * finish but starts no new ones; cancelling resolves the queue immediately.
+ */
+export interface QueueController {
+  readonly state: QueueState;
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+  // Resolves true once the queue may proceed, or false if it was cancelled.
+  ready(): Promise<boolean>;
+  readonly cancelled: Promise<void>;
+  subscribe(listener: (state: QueueState) => void): () => void;
+}
+
+export function createQueueController(): QueueController {
+  let state: QueueState = 'running';
+  let wake: () => void = () => {};
+  let gate: Promise<void> = Promise.resolve();
+  let signalCancel: () => void = () => {};
+  const cancelled = new Promise<void>(resolve => { signalCancel = resolve; });
+  const listeners = new Set<(state: QueueState) => void>();
+
+  const setState = (next: QueueState) => {
+    state = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  return {
+    get state() { return state; },
+    cancelled,
+    pause() {
+      if (state !== 'running') return;
+      gate = new Promise(resolve => { wake = resolve; });
+      setState('paused');
+    },
+    resume() {
+      if (state !== 'paused') return;
+      setState('running');
+      wake();
+    },
+    cancel() {
+      if (state === 'cancelled') return;
+      setState('cancelled');
+      signalCancel();
+      wake();
+    },
+    async ready() {
+      await gate;
+      return state !== 'cancelled';
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+}
+
+export interface JobContext {
+  attempt: number;
+  // Wait for a rate-limit token; call before every API request the job makes.
+  throttle: () => Promise<void>;
+}
+
+export interface QueueEvents<T, R> {
+  onStart?: (item: T, index: number) => void;
+  onRetry?: (item: T, index: number, attempt: number, error: unknown, delayMs: number) => void;
+  onSuccess?: (item: T, index: number, result: R, attempts: number) => void;
+  onFailure?: (item: T, index: number, error: unknown, attempts: number) => void;
+}
+
+export type QueueOutcome<R> =
+  | { status: 'fulfilled'; value: R; attempts: number }
+  | { status: 'rejected'; error: unknown; attempts: number }
+  | { status: 'skipped' };
+
+/**
+ * Runs `worker` over `items` and resolves with one outcome per item, in input order.
+ * Items not finished when the controller is cancelled are reported as `'skipped'`.
+ */
+export async function runQueue<T, R>(
+  items: T[],
+  worker: (item: T, ctx: JobContext) => Promise<R>,
+  options: Partial<QueueOptions> = {},
+  events: QueueEvents<T, R> = {},
+  controller: QueueController = createQueueController()
+): Promise<Array<QueueOutcome<R>>> {
+  const opts = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  const limiter = createRateLimiter(opts.ratePerMinute, opts.burst);
+  const outcomes: Array<QueueOutcome<R>> = Array.from({ length: items.length }, () => ({ status: 'skipped' as const }));
+  let next = 0;
+
+  const runJob = async (index: number) => {
+    const item = items[index];
+    events.onStart?.(item, index);
+
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1 && !(await controller.ready())) return;
+      try {
+        const value = await worker(item, { attempt, throttle: () => limiter.acquire() });
+        if (controller.state === 'cancelled') return;
+        outcomes[index] = { status: 'fulfilled', value, attempts: attempt };
+        events.onSuccess?.(item, index, value, attempt);
+        return;
+      } catch (error) {
+        if (controller.state === 'cancelled') return;
+        if (attempt > opts.maxRetries || !isRetryableError(error)) {
+          outcomes[index] = { status: 'rejected', error, attempts: attempt };
+          events.onFailure?.(item, index, error, attempt);
+          return;
+        }
+        const delay = backoffDelay(attempt, opts);
+        events.onRetry?.(item, index, attempt, error, delay);
+        await sleep(delay);
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length && (await controller.ready())) {
+      if (next >= items.length) break;
+      await runJob(next++);
+    }
+  };
+
+  const lanes = Promise.all(Array.from({ length: Math.max(1, Math.min(opts.concurrency, items.length)) }, lane));
+  await Promise.race([lanes, controller.cancelled]);
+  // Snapshot so late results from abandoned in-flight jobs cannot leak in.
+  return outcomes.slice();
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, fuseRankings, isEmptyQuery, parseQuery, tokenize } from './search';
+import { Profile } from '../types';
+
+const person = (id: string, fields: Partial<Profile>): Profile =>
+  ({ id, name: '', title: '', company: '', enrichment_status: 'success', enrichment_source: 'gemini_web', ...fields });
+
+const profiles = [
+  person('ana', { name: 'Ana Ruiz', title: 'Climate Tech Founder', company: 'Verdant', skills: ['Carbon Accounting'] }),
+  person('ben', { name: 'Ben Okafor', title: 'Software Engineer', company: 'Acme', background: 'Engineering lead who moved into climate policy research.' }),
+  person('cai', { name: 'Cai Wen', title: 'Product Designer', company: 'Beta', what_they_do: 'Designs machine learning tools for engineers.' }),
+  person('dee', { name: 'Dee Park', title: 'Engineering Manager', company: 'Gamma', skills: ['Kubernetes', 'Go'] })
+];
+const index = buildSearchIndex(profiles);
+const ids = (query: string, scope?: Set<string>) => index.search(query, 50, scope).map(h => h.id);
+
+describe('parseQuery', () => {
+  it('drops filler words and pulls out quoted phrases', () => {
+    expect(parseQuery('find me "machine learning" founders in climate')).toEqual({
+      terms: ['founders', 'climate', 'machine', 'learning'],
+      phrases: [['machine', 'learning']]
+    });
+  });
+
+  it('folds accents and keeps + and # in terms', () => {
+    expect(tokenize('José knows C++ and C#')).toEqual(['jose', 'knows', 'c++', 'and', 'c#']);
+  });
+});
+
+describe('isEmptyQuery', () => {
+  it.each([
+    ['', true],
+    ['  ', true],
+    ['find me someone', true],
+    ['""', true],
+    ['find me founders', false],
+    ['"the"', false]
+  ])('%j is %s', (query, expected) => {
+    expect(isEmptyQuery(query)).toBe(expected);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  it('ranks matches in boosted fields above matches in free text', () => {
+    const hits = index.search('climate');
+    expect(hits.map(h => h.id)).toEqual(['ana', 'ben']);
+    expect(hits[0].fields).toEqual(['title']);
+    expect(hits[1].fields).toEqual(['background']);
+  });
+
+  it('adds up scores across terms', () => {
+    expect(ids('engineering kubernetes')[0]).toBe('dee');
+  });
+
+  it('expands prefixes and near misspellings', () => {
+    expect(ids('kube')).toEqual(['dee']);
+    expect(ids('desinger')).toEqual(['cai']);
+    expect(ids('enginer')).toEqual(['ben']);
+  });
+
+  it('prefers the term as typed over its expansions', () => {
+    const [exact, expanded] = index.search('engineer');
+    expect(exact.id).toBe('ben');
+    expect(exact.score).toBeGreaterThan(expanded.score);
+  });
+
+  it('requires quoted phrases word for word', () => {
+    expect(ids('"machine learning"')).toEqual(['cai']);
+    expect(ids('"learning machine"')).toEqual([]);
+    expect(ids('engineers "climate policy"')).toEqual(['ben']);
+  });
+
+  it('restricts hits to the scope before the limit', () => {
+    expect(ids('engineer', new Set(['dee']))).toEqual(['dee']);
+    expect(index.search('engineer', 1, new Set(['cai', 'dee'])).map(h => h.id)).toHaveLength(1);
+  });
+
+  it('returns nothing for a query without searchable terms', () => {
+    expect(ids('find me someone')).toEqual([]);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('rewards ids ranked high in several lists', () => {
+    expect(fuseRankings([['a', 'b', 'c'], ['b', 'c', 'a'], ['b', 'd']])).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('keeps ids found by one list only', () => {
+    expect(fuseRankings([['a'], [], ['z']])).toEqual(['a', 'z']);
+  });
+});
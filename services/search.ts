@@ -0,0 +1,219 @@
+
+import { Profile } from "../types";
+import { careerText } from "./career";
+
+export type SearchField = 'name' | 'title' | 'company' | 'skills' | 'career' | 'what_they_do' | 'background' | 'achievements';
+
+// Matches in short, specific fields say more about a person than matches in free-text summaries.
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 3,
+  title: 2.5,
+  company: 2,
+  skills: 2,
+  career: 1.5,
+  what_they_do: 1,
+  background: 1,
+  achievements: 1
+};
+const FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+// BM25 parameters: term-frequency saturation and length normalization.
+const K1 = 1.2;
+const B = 0.75;
+// Expanded terms count for less than what was actually typed.
+const PREFIX_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+const MAX_EXPANSIONS = 20;
+
+// Filler in natural-language requests ("find me founders with 5+ years in climate tech").
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'here', 'i', 'in', 'is', 'it', 'me',
+  'my', 'of', 'on', 'or', 'someone', 'people', 'person', 'that', 'the', 'their', 'them', 'this', 'to', 'who', 'with',
+  'find', 'show', 'looking', 'want', 'need', 'should', 'could', 'would', 'talk', 'meet', 'about', 'any', 'anyone', 'all'
+]);
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  // Fields that matched, strongest first.
+  fields: SearchField[];
+}
+
+export interface SearchIndex {
+  size: number;
+  // `scope` restricts hits to these profile ids before `limit` is applied.
+  search: (query: string, limit?: number, scope?: Set<string>) => SearchHit[];
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Splits a query into scoring terms and quoted phrases that must appear word for word.
+ */
+export function parseQuery(query: string): { terms: string[], phrases: string[][] } {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_m, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) phrases.push(tokens);
+    return ' ';
+  });
+  const terms = [...tokenize(rest), ...phrases.flat()].filter(t => !STOP_WORDS.has(t));
+  return { terms: Array.from(new Set(terms)), phrases };
+}
+
+/**
+ * True when nothing in the query is searchable, e.g. only filler words; it then shows every profile.
+ */
+export function isEmptyQuery(query: string): boolean {
+  const { terms, phrases } = parseQuery(query);
+  return terms.length === 0 && phrases.length === 0;
+}
+
+/**
+ * Optimal string alignment distance (edits plus adjacent swaps), giving up once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function fieldText(p: Profile, field: SearchField): string {
+  if (field === 'skills') return (p.skills || []).join(' ');
+  if (field === 'career') return careerText(p);
+  return p[field] || '';
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((t, k) => tokens[i + k] === t)) return true;
+  }
+  return false;
+}
+
+/**
+ * In-memory BM25F index over the profiles' descriptive fields. Rebuilt whenever the list
+ * changes; a few thousand profiles index in well under a frame.
+ */
+export function buildSearchIndex(profiles: Profile[]): SearchIndex {
+  const docs = profiles.map(p => ({
+    id: p.id,
+    fields: Object.fromEntries(FIELDS.map(f => [f, tokenize(fieldText(p, f))])) as Record<SearchField, string[]>
+  }));
+
+  const avgLength = Object.fromEntries(FIELDS.map(f => [
+    f,
+    Math.max(1, docs.reduce((sum, d) => sum + d.fields[f].length, 0) / Math.max(1, docs.length))
+  ])) as Record<SearchField, number>;
+
+  // term -> document index -> per-field counts
+  const postings = new Map<string, Map<number, Partial<Record<SearchField, number>>>>();
+  docs.forEach((doc, i) => {
+    FIELDS.forEach(f => doc.fields[f].forEach(term => {
+      let byDoc = postings.get(term);
+      if (!byDoc) postings.set(term, byDoc = new Map());
+      const counts = byDoc.get(i) || {};
+      counts[f] = (counts[f] || 0) + 1;
+      byDoc.set(i, counts);
+    }));
+  });
+  const vocabulary = Array.from(postings.keys());
+
+  // The typed term plus indexed terms it could have meant: completions and near-misspellings.
+  const expand = (term: string): Array<{ term: string, weight: number }> => {
+    const out: Array<{ term: string, weight: number }> = [];
+    if (postings.has(term)) out.push({ term, weight: 1 });
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+    const extra: Array<{ term: string, weight: number }> = [];
+    vocabulary.forEach(v => {
+      if (v === term) return;
+      if (term.length >= 3 && v.startsWith(term)) extra.push({ term: v, weight: PREFIX_WEIGHT });
+      else if (maxDistance > 0 && editDistance(term, v, maxDistance) <= maxDistance) extra.push({ term: v, weight: FUZZY_WEIGHT });
+    });
+    extra.sort((a, b) => b.weight - a.weight || (postings.get(b.term)!.size - postings.get(a.term)!.size));
+    return [...out, ...extra.slice(0, MAX_EXPANSIONS)];
+  };
+
+  const search = (query: string, limit = 50, scope?: Set<string>): SearchHit[] => {
+    const { terms, phrases } = parseQuery(query);
+    if (terms.length === 0 && phrases.length === 0) return [];
+
+    const n = docs.length;
+    const scores = new Map<number, { score: number, fields: Map<SearchField, number> }>();
+    terms.forEach(term => {
+      // Best expansion per document, so "enginer" does not score twice for "engineer" and "engineering".
+      const best = new Map<number, { score: number, fields: Array<[SearchField, number]> }>();
+      expand(term).forEach(({ term: t, weight }) => {
+        const byDoc = postings.get(t)!;
+        const idf = Math.log(1 + (n - byDoc.size + 0.5) / (byDoc.size + 0.5));
+        byDoc.forEach((counts, doc) => {
+          const fieldScores = (Object.keys(counts) as SearchField[]).map(f => {
+            const norm = 1 - B + B * (docs[doc].fields[f].length / avgLength[f]);
+            return [f, FIELD_BOOSTS[f] * counts[f]! / norm] as [SearchField, number];
+          });
+          const tf = fieldScores.reduce((sum, [, s]) => sum + s, 0);
+          const score = weight * idf * (tf * (K1 + 1)) / (tf + K1);
+          if (score > (best.get(doc)?.score || 0)) best.set(doc, { score, fields: fieldScores });
+        });
+      });
+      best.forEach(({ score, fields }, doc) => {
+        const entry = scores.get(doc) || { score: 0, fields: new Map() };
+        entry.score += score;
+        fields.forEach(([f, s]) => entry.fields.set(f, (entry.fields.get(f) || 0) + s));
+        scores.set(doc, entry);
+      });
+    });
+
+    // Phrases are exact: every quoted phrase has to appear in one field.
+    const candidates = (phrases.length > 0
+      ? (terms.length > 0 ? Array.from(scores.keys()) : docs.map((_, i) => i))
+          .filter(i => phrases.every(ph => FIELDS.some(f => containsPhrase(docs[i].fields[f], ph))))
+      : Array.from(scores.keys())
+    ).filter(i => !scope || scope.has(docs[i].id));
+
+    return candidates
+      .map(i => {
+        const entry = scores.get(i);
+        return {
+          id: docs[i].id,
+          score: entry?.score || 0,
+          fields: entry ? Array.from(entry.fields.entries()).sort((a, b) => b[1] - a[1]).map(([f]) => f) : []
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { size: docs.length, search };
+}
+
+/**
+ * Reciprocal rank fusion: merges several best-first id lists into one, rewarding ids ranked high anywhere.
+ */
+export function fuseRankings(lists: string[][], k = 60): string[] {
+  const scores = new Map<string, number>();
+  lists.forEach(list => list.forEach((id, rank) => scores.set(id, (scores.get(id) || 0) + 1 / (k + rank + 1))));
+  return Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+}
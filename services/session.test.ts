@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionJSON, serializeSession } from './session';
+import { EXPORT_SCHEMA_VERSION } from './exportSchema';
+import { Profile } from '../types';
+
+const jane: Profile = {
+  id: 'li-jane-doe',
+  name: 'Jane Doe',
+  title: 'CTO',
+  company: 'Acme',
+  linkedin_url: 'https://www.linkedin.com/in/jane-doe',
+  skills: ['Go'],
+  experience_range: { min: 5, max: 8 },
+  embedding: { model: 'local:hash-512', source: 'abc', vector: [0.1, -0.2] },
+  identity_status: 'needs_review',
+  identity_candidates: [{ title: 'CTO', company: 'Acme', region: 'Austin', evidence: 'Team page', confidence: 0.7 }],
+  edit_history: [{ field: 'title', from: 'Engineer', to: 'CTO', at: 1700000000000 }],
+  suggested_connections: [{ id: 'p-bob', reason: 'Both in infra' }],
+  enrichment_status: 'success',
+  enrichment_source: 'gemini_web'
+};
+
+describe('session JSON round-trip', () => {
+  it('restores exported profiles unchanged', () => {
+    const { version, profiles, issues } = parseSessionJSON(serializeSession([jane]));
+    expect(version).toBe(EXPORT_SCHEMA_VERSION);
+    expect(profiles).toEqual([jane]);
+    expect(issues).toEqual([]);
+  });
+
+  it('renames duplicate ids and reports it', () => {
+    const { profiles, issues } = parseSessionJSON(serializeSession([jane, jane]));
+    expect(profiles.map(p => p.id)).toEqual(['li-jane-doe', 'li-jane-doe-2']);
+    expect(issues).toEqual([expect.objectContaining({ record: 1, field: 'id', severity: 'repaired' })]);
+  });
+});
+
+describe('parseSessionJSON', () => {
+  it('rejects unusable files', () => {
+    expect(() => parseSessionJSON('{"profiles": [')).toThrow(/Invalid JSON/);
+    expect(() => parseSessionJSON('{"people": []}')).toThrow(/Expected a list/);
+    expect(() => parseSessionJSON(JSON.stringify({ version: EXPORT_SCHEMA_VERSION + 1, profiles: [] }))).toThrow(/newer version/);
+  });
+
+  it('skips records without a name and points at their line', () => {
+    const text = serializeSession([jane]).replace('"profiles": [', '"profiles": [\n    { "title": "Ghost" },');
+    const { profiles, issues } = parseSessionJSON(text);
+    expect(profiles).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ record: 0, field: 'name', severity: 'error', line: 6 });
+  });
+
+  it('repairs field types it can recover', () => {
+    const { profiles, issues } = parseSessionJSON(JSON.stringify([{
+      name: 'Bob Roe',
+      title: true,
+      company: 42,
+      skills: 'Go, Rust',
+      linkedin_url: 'uk.linkedin.com/in/Bob-Roe',
+      enrichment_status: 'processing',
+      background: 'Infra lead'
+    }]));
+    expect(profiles[0]).toMatchObject({
+      id: 'li-bob-roe',
+      title: '',
+      company: '42',
+      skills: ['Go', 'Rust'],
+      linkedin_url: 'https://www.linkedin.com/in/bob-roe',
+      enrichment_status: 'success'
+    });
+    expect(issues.map(i => i.field)).toEqual(['title', 'skills', 'enrichment_status', 'id']);
+  });
+
+  it('defaults a missing candidate confidence to 0 and drops unusable candidates', () => {
+    const { profiles } = parseSessionJSON(JSON.stringify([{
+      ...jane,
+      identity_candidates: [{ title: 'CTO', company: 'Acme' }, { confidence: 0.9 }, 'junk', { title: 'VP', company: 'Beta', confidence: 7, evidence: 3 }]
+    }]));
+    expect(profiles[0].identity_candidates).toEqual([
+      { title: 'CTO', company: 'Acme', region: '', evidence: '', confidence: 0 },
+      { title: 'VP', company: 'Beta', region: '', evidence: '3', confidence: 1 }
+    ]);
+  });
+
+  it('clears a pending identity review that has no candidates', () => {
+    const { profiles } = parseSessionJSON(JSON.stringify([{ ...jane, identity_candidates: [] }]));
+    expect(profiles[0].identity_status).toBeUndefined();
+  });
+
+  it('migrates v1 ids to stable ones and repoints connections', () => {
+    const v1 = [
+      { id: 'profile-0-1700000000000', name: 'Jane Doe', company: 'Acme', linkedin_url: 'linkedin.com/in/jane-doe', enrichment_status: 'success',
+        suggested_connections: [{ id: 'restored-1-1700000000000', reason: 'Both in infra' }] },
+      { id: 'restored-1-1700000000000', name: 'Bob Roe', company: 'Beta', enrichment_status: 'pending' }
+    ];
+    const { version, profiles } = parseSessionJSON(JSON.stringify(v1));
+    expect(version).toBe(1);
+    expect(profiles[0].id).toBe('li-jane-doe');
+    expect(profiles[1].id).toMatch(/^p-/);
+    expect(profiles[0].suggested_connections).toEqual([{ id: profiles[1].id, reason: 'Both in infra' }]);
+  });
+});
@@ -0,0 +1,394 @@
+
+import { FieldProvenance, IdentityCandidate, Profile, ProfileEdit, ProvenanceField } from "../types";
+import { EXPORT_SCHEMA_VERSION } from "./exportSchema";
+import { profileId, withUniqueIds } from "./ids";
+import { parseLinkedInUrl } from "./linkedin";
+import { isEditableField } from "./edits";
+import { normalizeEducation, normalizeExperienceRange, normalizePositions, parseExperienceRange } from "./career";
+import { PROVENANCE_FIELDS } from "./provenance";
+
+export const SESSION_FORMAT = 'linkedin-recommender/profiles';
+
+export interface ValidationIssue {
+  // Zero-based position in the imported list; -1 for problems with the file itself.
+  record: number;
+  line?: number;
+  field?: string;
+  message: string;
+  // 'repaired' issues were fixed in place; 'error' records were skipped.
+  severity: 'repaired' | 'error';
+}
+
+export interface SessionImport {
+  version: number;
+  profiles: Profile[];
+  issues: ValidationIssue[];
+}
+
+const STATUSES: Profile['enrichment_status'][] = ['pending', 'processing', 'success', 'fallback', 'error'];
+const SOURCES: Profile['enrichment_source'][] = ['none', 'gemini_web', 'title_inference'];
+const OPTIONAL_TEXT = ['region', 'email', 'years_of_experience', 'background', 'what_they_do', 'achievements', 'match_reason'] as const;
+const STRING_LISTS = ['merged_ids', 'sources'] as const;
+const FLAGS = ['selected', 'force_refresh'] as const;
+const IDENTITY_STATUSES: NonNullable<Profile['identity_status']>[] = ['needs_review', 'confirmed', 'rejected'];
+const REQUEUED_FROM: NonNullable<Profile['requeued_from']>[] = ['success', 'fallback', 'error'];
+
+export function serializeSession(profiles: Profile[]): string {
+  return JSON.stringify({ format: SESSION_FORMAT, version: EXPORT_SCHEMA_VERSION, exported_at: new Date().toISOString(), profiles }, null, 2);
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) if (text[i] === '\n') line++;
+  return line;
+}
+
+/**
+ * Line on which each element of the profile array starts, found by scanning the raw text.
+ * `depth` is the nesting level of that array: 1 for a bare array, 2 inside the session envelope.
+ */
+function recordLines(text: string, depth: number): number[] {
+  const lines: number[] = [];
+  let level = 0;
+  let inString = false;
+  let line = 1;
+  let inProfiles = depth === 1;
+  let lastKey = '';
+  let keyStart = -1;
+  // Set after the array opens or a comma at its level; the next token starts an element.
+  let expectElement = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') line++;
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') {
+        inString = false;
+        if (level === 1) lastKey = text.slice(keyStart, i);
+      }
+      continue;
+    }
+    if (expectElement && !/\s/.test(char) && char !== ']') {
+      lines.push(line);
+      expectElement = false;
+    }
+    if (char === '"') {
+      inString = true;
+      keyStart = i + 1;
+    } else if (char === '[' || char === '{') {
+      if (depth === 2 && level === 1 && char === '[') inProfiles = lastKey === 'profiles';
+      level++;
+      if (char === '[' && inProfiles && level === depth) expectElement = true;
+    } else if (char === ']' || char === '}') {
+      level--;
+      expectElement = false;
+    } else if (char === ',' && inProfiles && level === depth) {
+      expectElement = true;
+    }
+  }
+  return lines;
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const textList = (value: unknown[]): string[] => value.map(asText).filter((s): s is string => Boolean(s));
+
+function asCandidate(value: unknown): IdentityCandidate | null {
+  if (!isRecord(value)) return null;
+  const title = asText(value.title) || '';
+  const company = asText(value.company) || '';
+  if (!title && !company) return null;
+  const confidence = typeof value.confidence === 'number' && Number.isFinite(value.confidence)
+    ? Math.max(0, Math.min(1, value.confidence))
+    : 0;
+  return {
+    title,
+    company,
+    region: asText(value.region) || '',
+    linkedin_url: asText(value.linkedin_url) || undefined,
+    evidence: asText(value.evidence) || '',
+    confidence
+  };
+}
+
+function asEdit(value: unknown): ProfileEdit | null {
+  if (!isRecord(value) || !isEditableField(value.field) || typeof value.at !== 'number') return null;
+  const side = (v: unknown) => Array.isArray(v) ? textList(v) : asText(v);
+  return { field: value.field, from: side(value.from), to: side(value.to), at: value.at };
+}
+
+/**
+ * Checks one record against the Profile shape, repairing what it can.
+ * Returns null when the record cannot be used.
+ */
+export function validateRecord(raw: unknown, report: (field: string | undefined, message: string, severity: ValidationIssue['severity']) => void): Profile | null {
+  if (!isRecord(raw)) {
+    report(undefined, 'Record is not an object', 'error');
+    return null;
+  }
+  const r = raw;
+  const name = asText(r.name)?.trim();
+  if (!name) {
+    report('name', 'Missing name', 'error');
+    return null;
+  }
+
+  const p: Partial<Profile> = { name };
+  (['title', 'company'] as const).forEach(field => {
+    const value = asText(r[field]);
+    if (value === undefined && r[field] !== undefined) report(field, `Expected text, got ${typeof r[field]}`, 'repaired');
+    p[field] = value ?? '';
+  });
+  OPTIONAL_TEXT.forEach(field => {
+    if (r[field] === undefined || r[field] === null) return;
+    const value = asText(r[field]);
+    if (value === undefined) report(field, `Expected text, got ${typeof r[field]}; dropped`, 'repaired');
+    else p[field] = value;
+  });
+
+  if (r.linkedin_url !== undefined && r.linkedin_url !== null) {
+    const url = parseLinkedInUrl(asText(r.linkedin_url));
+    if (url) p.linkedin_url = url.url;
+    else report('linkedin_url', 'Not a URL; dropped', 'repaired');
+  }
+
+  if (typeof r.skills === 'string') {
+    p.skills = r.skills.split(',').map(s => s.trim()).filter(Boolean);
+    report('skills', 'Skills given as text; split into a list', 'repaired');
+  } else if (Array.isArray(r.skills)) {
+    p.skills = textList(r.skills);
+  } else if (r.skills !== undefined && r.skills !== null) {
+    report('skills', 'Expected a list; dropped', 'repaired');
+  }
+
+  if (r.positions !== undefined && r.positions !== null) {
+    const list = normalizePositions(r.positions);
+    if (list.length < (Array.isArray(r.positions) ? r.positions.length : 1)) report('positions', 'Dropped malformed entries', 'repaired');
+    if (list.length > 0) p.positions = list;
+  }
+  if (r.education !== undefined && r.education !== null) {
+    const list = normalizeEducation(r.education);
+    if (list.length < (Array.isArray(r.education) ? r.education.length : 1)) report('education', 'Dropped malformed entries', 'repaired');
+    if (list.length > 0) p.education = list;
+  }
+  if (r.experience_range !== undefined && r.experience_range !== null) {
+    p.experience_range = normalizeExperienceRange(r.experience_range);
+    if (!p.experience_range) report('experience_range', 'Not a valid range; dropped', 'repaired');
+  }
+  // Sessions saved before the numeric range existed only have the text estimate.
+  if (!p.experience_range && p.years_of_experience) p.experience_range = parseExperienceRange(p.years_of_experience);
+
+  if (r.score !== undefined && r.score !== null) {
+    const score = Number(r.score);
+    if (Number.isFinite(score)) p.score = score;
+    else report('score', 'Not a number; dropped', 'repaired');
+  }
+
+  if (Array.isArray(r.grounding_urls)) {
+    const links = r.grounding_urls.filter(isRecord).filter(g => typeof g.uri === 'string');
+    p.grounding_urls = links.map(g => ({ uri: g.uri as string, title: asText(g.title) || (g.uri as string) }));
+    if (links.length < r.grounding_urls.length) report('grounding_urls', 'Dropped links without a URL', 'repaired');
+  }
+
+  if (Array.isArray(r.suggested_connections)) {
+    const connections = r.suggested_connections.filter(isRecord).filter(c => typeof c.id === 'string');
+    p.suggested_connections = connections.map(c => ({ id: c.id as string, reason: asText(c.reason) || '' }));
+    if (connections.length < r.suggested_connections.length) report('suggested_connections', 'Dropped connections without an id', 'repaired');
+  }
+
+  if (isRecord(r.provenance)) {
+    const provenance: Partial<Record<ProvenanceField, FieldProvenance>> = {};
+    Object.entries(r.provenance).forEach(([field, v]) => {
+      const known = PROVENANCE_FIELDS.find(f => f === field);
+      if (!known || !isRecord(v) || typeof v.confidence !== 'number' || !Array.isArray(v.sources)) return;
+      provenance[known] = { confidence: v.confidence, sources: v.sources.filter(Number.isInteger), inferred: Boolean(v.inferred) };
+    });
+    if (Object.keys(provenance).length < Object.keys(r.provenance).length) report('provenance', 'Dropped malformed field provenance', 'repaired');
+    p.provenance = provenance;
+  }
+
+  const identityStatus = IDENTITY_STATUSES.find(s => s === r.identity_status);
+  if (identityStatus) p.identity_status = identityStatus;
+  if (Array.isArray(r.identity_candidates)) {
+    const candidates = r.identity_candidates.map(asCandidate).filter((c): c is IdentityCandidate => c !== null);
+    if (candidates.length < r.identity_candidates.length) report('identity_candidates', 'Dropped candidates without a title or company', 'repaired');
+    if (r.identity_candidates.some(c => isRecord(c) && typeof c.confidence !== 'number')) {
+      report('identity_candidates', 'Candidates without a confidence set to 0', 'repaired');
+    }
+    p.identity_candidates = candidates;
+  }
+  if (p.identity_status === 'needs_review' && !p.identity_candidates?.length) {
+    delete p.identity_status;
+    report('identity_status', 'Awaiting review but no candidates; cleared', 'repaired');
+  }
+
+  if (Array.isArray(r.locked_fields)) {
+    p.locked_fields = r.locked_fields.filter(isEditableField);
+    if (p.locked_fields.length < r.locked_fields.length) report('locked_fields', 'Dropped locks on unknown fields', 'repaired');
+  }
+  if (Array.isArray(r.edit_history)) {
+    p.edit_history = r.edit_history.map(asEdit).filter((e): e is ProfileEdit => e !== null);
+    if (p.edit_history.length < r.edit_history.length) report('edit_history', 'Dropped malformed edit history entries', 'repaired');
+  }
+
+  if (r.embedding !== undefined && r.embedding !== null) {
+    const e = r.embedding;
+    if (isRecord(e) && typeof e.model === 'string' && typeof e.source === 'string' && Array.isArray(e.vector) && e.vector.every(Number.isFinite)) {
+      p.embedding = { model: e.model, source: e.source, vector: e.vector as number[] };
+    } else {
+      report('embedding', 'Malformed vector; dropped and will be recomputed', 'repaired');
+    }
+  }
+
+  STRING_LISTS.forEach(field => {
+    const value = r[field];
+    if (Array.isArray(value)) p[field] = textList(value);
+  });
+  FLAGS.forEach(field => {
+    const value = r[field];
+    if (typeof value === 'boolean') p[field] = value;
+  });
+  if (typeof r.enrichment_attempts === 'number') p.enrichment_attempts = r.enrichment_attempts;
+  if (typeof r.enriched_at === 'number' && Number.isFinite(r.enriched_at)) p.enriched_at = r.enriched_at;
+
+  if (isRecord(r.custom_fields)) {
+    const custom: Record<string, string> = {};
+    Object.entries(r.custom_fields).forEach(([k, v]) => {
+      const value = asText(v);
+      if (value !== undefined) custom[k] = value;
+    });
+    p.custom_fields = custom;
+  }
+
+  const hasResearch = Boolean(p.background || p.what_they_do || p.skills?.length);
+  const status = STATUSES.find(s => s === r.enrichment_status);
+  if (!status) {
+    p.enrichment_status = hasResearch ? 'success' : 'pending';
+    report('enrichment_status', `Missing or unknown status; set to '${p.enrichment_status}'`, 'repaired');
+  } else if (status === 'processing') {
+    // Saved mid-run; the job never finished.
+    p.enrichment_status = hasResearch ? 'success' : 'pending';
+    report('enrichment_status', `Interrupted while processing; set to '${p.enrichment_status}'`, 'repaired');
+  } else {
+    p.enrichment_status = status;
+  }
+
+  // Only meaningful while the re-run is still queued.
+  const requeuedFrom = REQUEUED_FROM.find(s => s === r.requeued_from);
+  if (p.enrichment_status === 'pending' && requeuedFrom) p.requeued_from = requeuedFrom;
+
+  const source = SOURCES.find(s => s === r.enrichment_source);
+  if (source) {
+    p.enrichment_source = source;
+  } else {
+    p.enrichment_source = p.enrichment_status === 'success' ? 'gemini_web' : p.enrichment_status === 'fallback' ? 'title_inference' : 'none';
+    if (r.enrichment_source !== undefined) report('enrichment_source', `Unknown source; set to '${p.enrichment_source}'`, 'repaired');
+  }
+
+  const profile = { ...p, name, title: p.title ?? '', company: p.company ?? '' };
+  const id = asText(r.id)?.trim();
+  if (!id) report('id', 'Missing id; derived from LinkedIn or name', 'repaired');
+  return { ...profile, id: id || profileId(profile), enrichment_status: p.enrichment_status, enrichment_source: p.enrichment_source };
+}
+
+// Row position plus a timestamp, as assigned before ids were derived from the person.
+const LEGACY_ID = /^(profile|restored)-\d+-\d+$/;
+
+// Each step upgrades raw records from version `from` to `from + 1`; field-level repairs happen in validateRecord.
+const MIGRATIONS: Record<number, (records: unknown[]) => unknown[]> = {
+  // v1 ids changed on every import; replace them with stable ones and repoint suggested connections.
+  1: records => {
+    const renamed = new Map<string, string>();
+    const migrated = records.map(raw => {
+      if (!isRecord(raw) || typeof raw.id !== 'string' || !LEGACY_ID.test(raw.id)) return raw;
+      const id = profileId({
+        name: asText(raw.name) || '',
+        company: asText(raw.company) || '',
+        email: asText(raw.email),
+        linkedin_url: parseLinkedInUrl(asText(raw.linkedin_url))?.url
+      });
+      renamed.set(raw.id, id);
+      return { ...raw, id };
+    });
+    return migrated.map(raw => isRecord(raw) && Array.isArray(raw.suggested_connections)
+      ? {
+          ...raw,
+          suggested_connections: raw.suggested_connections.map(c => isRecord(c) && typeof c.id === 'string' && renamed.has(c.id) ? { ...c, id: renamed.get(c.id) } : c)
+        }
+      : raw);
+  }
+};
+
+/**
+ * Parses a JSON session export, migrating older versions and validating every record.
+ * Throws only when the file is not usable at all; per-record problems are returned as issues.
+ */
+export function parseSessionJSON(text: string): SessionImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    const position = Number((e as Error).message.match(/position (\d+)/)?.[1]);
+    const where = Number.isFinite(position) ? ` (line ${lineAt(text, position)})` : '';
+    throw new Error(`Invalid JSON${where}: ${(e as Error).message}`);
+  }
+
+  let version = 1;
+  let records: unknown[];
+  if (Array.isArray(data)) {
+    records = data;
+  } else if (isRecord(data) && Array.isArray(data.profiles)) {
+    version = Number(data.version) || 1;
+    records = data.profiles;
+  } else {
+    throw new Error("Expected a list of profiles or a session export.");
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`This file was exported by a newer version (schema v${version}).`);
+  }
+
+  for (let v = version; v < EXPORT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (step) records = step(records);
+  }
+
+  const lines = recordLines(text, Array.isArray(data) ? 1 : 2);
+  const issues: ValidationIssue[] = [];
+  const profiles: Profile[] = [];
+  const origins: number[] = [];
+  records.forEach((raw, record) => {
+    const profile = validateRecord(raw, (field, message, severity) => issues.push({ record, line: lines[record], field, message, severity }));
+    if (profile) {
+      profiles.push(profile);
+      origins.push(record);
+    }
+  });
+
+  const unique = withUniqueIds(profiles);
+  unique.forEach((p, i) => {
+    if (p.id === profiles[i].id) return;
+    const record = origins[i];
+    issues.push({ record, line: lines[record], field: 'id', message: `Duplicate id '${profiles[i].id}'; renamed to '${p.id}'`, severity: 'repaired' });
+  });
+
+  return { version, profiles: unique, issues };
+}
+
+/**
+ * One line per issue, for alerts and confirmations.
+ */
+export function describeIssue(issue: ValidationIssue): string {
+  const where = [
+    issue.record >= 0 ? `record ${issue.record + 1}` : '',
+    issue.line ? `line ${issue.line}` : '',
+    issue.field || ''
+  ].filter(Boolean).join(', ');
+  return `${issue.severity === 'error' ? '✗' : '•'} ${where}: ${issue.message}`;
+}
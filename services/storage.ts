@@ -0,0 +1,154 @@
+
+import { MappingTemplate, Workspace, WorkspaceSummary } from "../types";
+
+const DB_NAME = 'linkedin-recommender';
+const DB_VERSION = 3;
+const WORKSPACE_STORE = 'workspaces';
+const TEMPLATE_STORE = 'templates';
+export const CACHE_STORE = 'cache';
+const ACTIVE_WORKSPACE_KEY = 'linkedin-recommender:active-workspace';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let blocked = false;
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+          db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // A newer version opened in another tab: let it upgrade, and reopen on the next call.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (!blocked) {
+          resolve(db);
+        } else if (!dbPromise) {
+          // Unblocked after the caller gave up; keep the connection for the next call.
+          dbPromise = Promise.resolve(db);
+        } else {
+          db.close();
+        }
+      };
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+      // Another tab still holds an older version open. Fail rather than hang autosave and loading.
+      req.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error("The workspace database is open in another tab on an older version. Close that tab and reload."));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs one request in its own transaction. Resolves once the transaction has committed, so a
+ * saved workspace is on disk by the time the promise settles.
+ */
+export async function withStore<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error || req.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
+
+export function createWorkspace(name = 'Untitled Workspace'): Workspace {
+  const now = Date.now();
+  return {
+    id: `ws-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    view: 'upload',
+    imports: [],
+    profiles: [],
+    insights: null
+  };
+}
+
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const all = await withStore<Workspace[]>(WORKSPACE_STORE, 'readonly', store => store.getAll());
+  return all
+    .map(ws => ({ id: ws.id, name: ws.name, updatedAt: ws.updatedAt, profileCount: ws.profiles.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades workspaces saved by older versions to the current shape; null when the record is not a workspace.
+ */
+function migrateWorkspace(raw: unknown): Workspace | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  if (Array.isArray(raw.imports)) return raw as unknown as Workspace;
+  // Version 1 kept a single import inline as `rawCSV` and `mappings`.
+  const { rawCSV, mappings, ...rest } = raw;
+  const csv = isRecord(rawCSV) ? rawCSV : {};
+  const headers = Array.isArray(csv.headers) ? csv.headers.filter((h): h is string => typeof h === 'string') : [];
+  const rows = Array.isArray(csv.rows) ? csv.rows.filter(Array.isArray) : [];
+  const imports = headers.length > 0
+    ? [{ id: `src-${raw.id}`, fileName: typeof raw.name === 'string' ? raw.name : '', headers, rows, mappings: Array.isArray(mappings) ? mappings : [] }]
+    : [];
+  return { ...rest, imports } as unknown as Workspace;
+}
+
+export async function loadWorkspace(id: string): Promise<Workspace | null> {
+  const raw = await withStore<unknown>(WORKSPACE_STORE, 'readonly', store => store.get(id));
+  return migrateWorkspace(raw);
+}
+
+export async function saveWorkspace(ws: Workspace): Promise<void> {
+  await withStore(WORKSPACE_STORE, 'readwrite', store => store.put({ ...ws, updatedAt: Date.now() }));
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore(WORKSPACE_STORE, 'readwrite', store => store.delete(id));
+}
+
+export async function renameWorkspace(id: string, name: string): Promise<void> {
+  const ws = await loadWorkspace(id);
+  if (ws) await saveWorkspace({ ...ws, name });
+}
+
+export async function listTemplates(): Promise<MappingTemplate[]> {
+  const all = await withStore<MappingTemplate[]>(TEMPLATE_STORE, 'readonly', store => store.getAll());
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: MappingTemplate): Promise<void> {
+  await withStore(TEMPLATE_STORE, 'readwrite', store => store.put(template));
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  await withStore(TEMPLATE_STORE, 'readwrite', store => store.delete(id));
+}
+
+export function getActiveWorkspaceId(): string | null {
+  return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+}
+
+export function setActiveWorkspaceId(id: string) {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+}
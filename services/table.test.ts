@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { sortProfiles, tableColumns, toggleSort } from './table';
+import { Profile } from '../types';
+
+const person = (name: string, company: string, score?: number): Profile =>
+  ({ id: name, name, title: '', company, score, enrichment_status: 'success', enrichment_source: 'gemini_web' });
+
+const people = [person('Cy', 'Beta', 70), person('Ann', 'Acme'), person('Bo', 'Beta', 90), person('Di', '', 70)];
+const columns = tableColumns(people);
+const column = (id: string) => columns.find(c => c.id === id)!;
+
+describe('sortProfiles', () => {
+  it('puts blanks last in either direction', () => {
+    expect(sortProfiles(people, columns, [{ column: 'score', direction: 'desc' }]).map(p => p.name)).toEqual(['Bo', 'Cy', 'Di', 'Ann']);
+    expect(sortProfiles(people, columns, [{ column: 'score', direction: 'asc' }]).map(p => p.name)).toEqual(['Cy', 'Di', 'Bo', 'Ann']);
+  });
+
+  it('sorts by several keys and keeps ties in their incoming order', () => {
+    const sorted = sortProfiles(people, columns, [{ column: 'company', direction: 'asc' }, { column: 'score', direction: 'desc' }]);
+    expect(sorted.map(p => p.name)).toEqual(['Ann', 'Bo', 'Cy', 'Di']);
+    expect(sortProfiles(people, columns, [])).toBe(people);
+  });
+});
+
+describe('toggleSort', () => {
+  it('starts numbers descending and text ascending', () => {
+    expect(toggleSort([], column('score'), false)).toEqual([{ column: 'score', direction: 'desc' }]);
+    expect(toggleSort([], column('name'), false)).toEqual([{ column: 'name', direction: 'asc' }]);
+  });
+
+  it('appends, flips and drops keys on shift-click', () => {
+    const first = toggleSort([{ column: 'company', direction: 'asc' }], column('score'), true);
+    expect(first).toEqual([{ column: 'company', direction: 'asc' }, { column: 'score', direction: 'desc' }]);
+    const flipped = toggleSort(first, column('score'), true);
+    expect(flipped[1]).toEqual({ column: 'score', direction: 'asc' });
+    expect(toggleSort(flipped, column('score'), true)).toEqual([{ column: 'company', direction: 'asc' }]);
+  });
+});
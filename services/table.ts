@@ -0,0 +1,122 @@
+
+import { Profile } from "../types";
+import { formatExperienceRange } from "./career";
+import { linkedinSlug } from "./linkedin";
+import { normalizeRegion, seniorityOf } from "./facets";
+
+export type TableColumnId =
+  | 'name' | 'title' | 'company' | 'region' | 'seniority' | 'experience' | 'score' | 'skills'
+  | 'status' | 'source' | 'enriched_at' | 'linkedin' | 'email' | `custom:${string}`;
+
+export interface TableColumn {
+  id: TableColumnId;
+  label: string;
+  // Pixel width; the table scrolls sideways once the chosen columns outgrow the page.
+  width: number;
+  text: (p: Profile) => string;
+  // Columns without a sort value cannot be sorted on.
+  sortValue?: (p: Profile) => string | number | undefined;
+  // Numbers read best largest-first, so their first click sorts descending.
+  numeric?: boolean;
+}
+
+export interface SortKey {
+  column: TableColumnId;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_TABLE_COLUMNS: TableColumnId[] = ['name', 'title', 'company', 'region', 'experience', 'score'];
+
+const formatDate = (ms?: number) => ms ? new Date(ms).toLocaleDateString() : '';
+
+const BUILT_IN_COLUMNS: TableColumn[] = [
+  { id: 'name', label: 'Name', width: 200, text: p => p.name, sortValue: p => p.name },
+  { id: 'title', label: 'Title', width: 220, text: p => p.title || '', sortValue: p => p.title },
+  { id: 'company', label: 'Company', width: 180, text: p => p.company || '', sortValue: p => p.company },
+  { id: 'region', label: 'Region', width: 170, text: p => p.region || '', sortValue: p => normalizeRegion(p.region) || undefined },
+  { id: 'seniority', label: 'Seniority', width: 150, text: p => seniorityOf(p.title), sortValue: p => seniorityOf(p.title) || undefined },
+  {
+    id: 'experience',
+    label: 'Experience',
+    width: 110,
+    numeric: true,
+    text: p => p.experience_range ? `${formatExperienceRange(p.experience_range)} yrs` : p.years_of_experience || '',
+    // Ranges sort by their lower bound, then by how far they reach ("5+" after "5–8").
+    sortValue: p => p.experience_range ? p.experience_range.min + Math.min(p.experience_range.max ?? 99, 99) / 1000 : undefined
+  },
+  { id: 'score', label: 'Match', width: 90, numeric: true, text: p => p.score !== undefined ? `${Math.round(p.score)}%` : '', sortValue: p => p.score },
+  // Sorted by how many skills were found, not alphabetically.
+  { id: 'skills', label: 'Skills', width: 240, numeric: true, text: p => (p.skills || []).join(', '), sortValue: p => p.skills?.length || undefined },
+  { id: 'status', label: 'Status', width: 110, text: p => p.enrichment_status, sortValue: p => p.enrichment_status },
+  { id: 'source', label: 'Source', width: 140, text: p => p.enrichment_source.replace('_', ' '), sortValue: p => p.enrichment_source },
+  { id: 'enriched_at', label: 'Enriched', width: 120, numeric: true, text: p => formatDate(p.enriched_at), sortValue: p => p.enriched_at },
+  { id: 'linkedin', label: 'LinkedIn', width: 170, text: p => p.linkedin_url ? linkedinSlug(p.linkedin_url) : '', sortValue: p => p.linkedin_url ? linkedinSlug(p.linkedin_url) : undefined },
+  { id: 'email', label: 'Email', width: 220, text: p => p.email || '', sortValue: p => p.email }
+];
+
+/**
+ * Columns the table can show: the built-in ones plus one per custom field in the list.
+ */
+export function tableColumns(profiles: Profile[]): TableColumn[] {
+  const customKeys = Array.from(new Set(profiles.flatMap(p => Object.keys(p.custom_fields || {}))));
+  const custom: TableColumn[] = customKeys.map(key => ({
+    id: `custom:${key}` as TableColumnId,
+    label: key,
+    width: 180,
+    text: p => p.custom_fields?.[key] || '',
+    sortValue: p => p.custom_fields?.[key]?.trim() || undefined
+  }));
+  return [...BUILT_IN_COLUMNS, ...custom];
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Sorts by each key in turn. Blank values go last in either direction, and ties keep their
+ * incoming order, so an empty sort leaves search relevance untouched.
+ */
+export function sortProfiles(profiles: Profile[], columns: TableColumn[], sort: SortKey[]): Profile[] {
+  const keys = sort
+    .map(key => ({ key, column: columns.find(c => c.id === key.column) }))
+    .filter((k): k is { key: SortKey, column: TableColumn & { sortValue: NonNullable<TableColumn['sortValue']> } } => !!k.column?.sortValue);
+  if (keys.length === 0) return profiles;
+
+  const rows = profiles.map((p, index) => ({ p, index, values: keys.map(k => k.column.sortValue(p)) }));
+  rows.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const av = a.values[i], bv = b.values[i];
+      const aBlank = av === undefined || av === '', bBlank = bv === undefined || bv === '';
+      if (aBlank || bBlank) {
+        if (aBlank !== bBlank) return aBlank ? 1 : -1;
+        continue;
+      }
+      const diff = compareValues(av!, bv!);
+      if (diff !== 0) return keys[i].key.direction === 'asc' ? diff : -diff;
+    }
+    return a.index - b.index;
+  });
+  return rows.map(r => r.p);
+}
+
+/**
+ * Header click handling. A plain click sorts by that column alone, flipping its direction if it
+ * already was the only key; with `additive` (shift-click) the column is appended to the sort,
+ * flipped, or dropped on its third click.
+ */
+export function toggleSort(sort: SortKey[], column: TableColumn, additive: boolean): SortKey[] {
+  const first: SortKey['direction'] = column.numeric ? 'desc' : 'asc';
+  const existing = sort.find(k => k.column === column.id);
+  if (!additive) {
+    return sort.length === 1 && existing
+      ? [{ column: column.id, direction: existing.direction === 'asc' ? 'desc' : 'asc' }]
+      : [{ column: column.id, direction: first }];
+  }
+  if (!existing) return [...sort, { column: column.id, direction: first }];
+  if (existing.direction === first) {
+    return sort.map(k => k.column === column.id ? { ...k, direction: first === 'asc' ? 'desc' : 'asc' } : k);
+  }
+  return sort.filter(k => k.column !== column.id);
+}
@@ -4,13 +4,95 @@ export interface GroundingLink {
   title: string;
 }
 
-export type FieldType = 'name' | 'title' | 'company' | 'linkedin_url' | 'email' | 'ignore';
+// Enriched fields whose origin is tracked individually.
+export type ProvenanceField = 'years_of_experience' | 'region' | 'background' | 'what_they_do' | 'achievements' | 'skills';
+
+export interface FieldProvenance {
+  // 0-1; grounded fields use the search support scores, others the model's own estimate.
+  confidence: number;
+  // Indices into the profile's grounding_urls that support this field.
+  sources: number[];
+  // True when no source backs the field and it was inferred by the model.
+  inferred: boolean;
+}
+
+export interface Position {
+  title: string;
+  company: string;
+  // "YYYY" or "YYYY-MM"; no end date means the role is current.
+  start?: string;
+  end?: string;
+}
+
+export interface Education {
+  school: string;
+  degree?: string;
+  field?: string;
+}
+
+// Total years of professional experience; no max means open-ended ("12+").
+export interface ExperienceRange {
+  min: number;
+  max?: number;
+}
+
+export interface ProfileEmbedding {
+  // Backend and model that produced the vector; vectors from different models are not comparable.
+  model: string;
+  // Hash of the embedded text, so edited or re-enriched profiles are embedded again.
+  source: string;
+  vector: number[];
+}
+
+// One possible match for a person whose identity is ambiguous.
+export interface IdentityCandidate {
+  title: string;
+  company: string;
+  region: string;
+  linkedin_url?: string;
+  // Why the model thinks this could be the person.
+  evidence: string;
+  confidence: number;
+}
+
+export interface RoleIdentification {
+  title: string;
+  company: string;
+  region: string;
+  // 0-1 confidence that the top answer is the right person.
+  confidence: number;
+  // Ranked alternatives, best first; only filled when several people share the name.
+  candidates: IdentityCandidate[];
+}
+
+// Profile fields a person can correct by hand and lock against automated overwrites.
+export type EditableField = 'name' | 'title' | 'company' | 'region' | 'linkedin_url' | 'email'
+  | 'years_of_experience' | 'experience_range' | 'background' | 'what_they_do' | 'achievements' | 'skills'
+  | 'positions' | 'education' | 'custom_fields';
+
+export interface ProfileEdit {
+  field: EditableField;
+  // Skills are kept as a list; structured fields (positions, education, ...) as their edit text.
+  from?: string | string[];
+  to?: string | string[];
+  // Epoch milliseconds.
+  at: number;
+}
+
+export type StandardFieldType = 'name' | 'title' | 'company' | 'linkedin_url' | 'email' | 'ignore';
+
+// User-defined fields are mapped as `custom:<label>` and land in `Profile.custom_fields`.
+export type CustomFieldType = `custom:${string}`;
+
+export type FieldType = StandardFieldType | CustomFieldType;
 
 export interface ColumnMapping {
   header: string;
   mappedTo: FieldType;
   preview: string[];
   autoDetected: boolean;
+  // 0-1 score behind an automatic mapping; absent once the user picks manually.
+  confidence?: number;
 }
 
 export interface Profile {
@@ -22,6 +104,7 @@ export interface Profile {
   linkedin_url?: string;
   email?: string;
   selected?: boolean;
+  custom_fields?: Record<string, string>;
   
   // Enriched data
   years_of_experience?: string;
@@ -29,7 +112,13 @@ export interface Profile {
   what_they_do?: string;
   achievements?: string;
   skills?: string[];
+  // Most recent first.
+  positions?: Position[];
+  education?: Education[];
+  experience_range?: ExperienceRange;
   grounding_urls?: GroundingLink[];
+  provenance?: Partial<Record<ProvenanceField, FieldProvenance>>;
+  embedding?: ProfileEmbedding;
   
   // Agent Recommendation data
   match_reason?: string;
@@ -39,6 +128,22 @@ export interface Profile {
   // Metadata
   enrichment_status: 'pending' | 'processing' | 'success' | 'fallback' | 'error';
   enrichment_source: 'none' | 'gemini_web' | 'title_inference';
+  enrichment_attempts?: number;
+  // Epoch milliseconds when the current research was produced (the cache entry's age on a hit).
+  enriched_at?: number;
+  // Status before a re-run was queued from the results view; restored if that run fails or is cancelled.
+  requeued_from?: 'success' | 'fallback' | 'error';
+  force_refresh?: boolean;
+  // 'needs_review' profiles wait for a person to pick from identity_candidates before enrichment.
+  identity_status?: 'needs_review' | 'confirmed' | 'rejected';
+  identity_candidates?: IdentityCandidate[];
+  merged_ids?: string[];
+  // Hand-corrected fields that enrichment and role identification must leave alone.
+  locked_fields?: EditableField[];
+  // Manual edits, oldest first.
+  edit_history?: ProfileEdit[];
+  // File names this attendee was imported from.
+  sources?: string[];
 }
 
 export interface EnrichmentProgress {
@@ -47,10 +152,14 @@ export interface EnrichmentProgress {
   percentage: string;
   currentName: string;
   phase: 'identifying' | 'extracting';
+  active: number;
+  retries: number;
+  cacheHits: number;
   logs: Array<{
     name: string;
-    status: 'success' | 'error' | 'processing' | 'fallback';
+    status: 'success' | 'error' | 'processing' | 'fallback' | 'retrying' | 'review';
     message: string;
+    cached?: boolean;
   }>;
 }
 
@@ -60,9 +169,13 @@ export interface EnrichmentResult {
   what_they_do: string;
   achievements: string;
   skills: string[];
+  positions: Position[];
+  education: Education[];
+  experience_range?: ExperienceRange;
   region: string;
   is_valid: boolean;
   grounding_urls?: GroundingLink[];
+  provenance?: Partial<Record<ProvenanceField, FieldProvenance>>;
   identified_title?: string;
   identified_company?: string;
 }
@@ -71,3 +184,77 @@ export interface FallbackResult {
   typical_responsibilities: string;
   typical_skills: string[];
 }
+
+export type PlatformId = 'luma' | 'eventbrite' | 'meetup' | 'hopin' | 'generic';
+
+export interface ImportSource {
+  id: string;
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  mappings: ColumnMapping[];
+  appliedTemplate?: string;
+  // Attendee platform whose cleaner is applied; detected from the headers when absent.
+  platform?: PlatformId;
+}
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  headers: string[];
+  mappings: Array<{ header: string, mappedTo: FieldType }>;
+}
+
+export type AppView = 'upload' | 'mapping' | 'dedupe' | 'select' | 'enriching' | 'review' | 'results';
+
+// One profile in an agent answer; score and reason are absent when the agent only kept it.
+export interface AgentMatch {
+  id: string;
+  score?: number;
+  reason?: string;
+}
+
+// search: a new result set; narrow: a subset of the current one; refine: current results re-ranked
+// or extended; explain / answer: a reply that leaves the results as they were.
+export type AgentAction = 'search' | 'narrow' | 'refine' | 'explain' | 'answer';
+
+export interface AgentTurn {
+  id: string;
+  role: 'user' | 'agent';
+  text: string;
+  at: number;
+  // Agent turns only: what the agent did and the result set shown after it.
+  action?: AgentAction;
+  results?: AgentMatch[];
+  // The agent could not be reached; shown to the user but never sent back to the model.
+  error?: boolean;
+}
+
+export interface PinnedResultSet {
+  id: string;
+  label: string;
+  results: AgentMatch[];
+  createdAt: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  view: AppView;
+  // Uploaded attendee files waiting to be mapped into profiles.
+  imports: ImportSource[];
+  profiles: Profile[];
+  insights: string | null;
+  // Chat with the networking agent on the results page, oldest turn first.
+  conversation?: AgentTurn[];
+  pinnedSets?: PinnedResultSet[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  profileCount: number;
+}
@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.ENRICH_CONCURRENCY': JSON.stringify(env.ENRICH_CONCURRENCY),
+        'process.env.ENRICH_RATE_PER_MINUTE': JSON.stringify(env.ENRICH_RATE_PER_MINUTE),
+        'process.env.CACHE_TTL_DAYS': JSON.stringify(env.CACHE_TTL_DAYS),
+        'process.env.EMBEDDING_PROVIDER': JSON.stringify(env.EMBEDDING_PROVIDER),
+        'process.env.EMBEDDING_MODEL': JSON.stringify(env.EMBEDDING_MODEL)
       },
       resolve: {
         alias: {